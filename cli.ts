@@ -0,0 +1,113 @@
+/**
+ * Manages the application commands of routes, separately from serving them.
+ *
+ * ```sh
+ * deno run -A cli.ts register ./routes.ts
+ * deno run -A cli.ts diff ./routes.ts --guild 123,456
+ * deno run -A cli.ts list --global
+ * deno run -A cli.ts purge --guild 123
+ * ```
+ *
+ * The routes module must export its route map as default. Commands are
+ * managed in the guilds of `--guild`, or `DISCORD_GUILD_ID`, or globally with
+ * `--global`, except `purge`, which requires one of the flags.
+ */
+import { parseFlags } from "./deps.ts";
+import {
+  commandsFromRoutes,
+  diffCommands,
+  listCommands,
+  purgeCommands,
+  registerCommands,
+} from "./router.ts";
+import type { CommandDiff, Handler, Route } from "./router.ts";
+
+const USAGE = `Usage: cli.ts <command> [routes] [--guild <ids>] [--global]
+
+Commands:
+  register <routes>  Registers commands of the routes, if changed.
+  diff <routes>      Shows changes that register would make.
+  list               Lists registered commands.
+  purge              Deletes all registered commands, in the scope of
+                     an explicit --guild or --global.`;
+
+export async function main(args: string[]) {
+  const flags = parseFlags(args, {
+    string: ["guild"],
+    boolean: ["global", "help"],
+  });
+  const [action, module] = flags._.map(String);
+  const options = {
+    guildId: flags.global ? "" : flags.guild,
+  };
+
+  if (flags.help || !action) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (action === "list") {
+    const lists = await listCommands(options);
+    for (const [scope, commands] of Object.entries(lists)) {
+      console.log(`${scope}:`);
+      for (const { name, description } of commands) {
+        console.log(`  ${name}: ${description}`);
+      }
+    }
+    return;
+  }
+
+  if (action === "purge") {
+    // Deleting is not undoable, so the scope is never implied.
+    if (!flags.global && !flags.guild) {
+      console.error(`Missing --guild or --global to purge\n\n${USAGE}`);
+      Deno.exit(1);
+    }
+    await purgeCommands(options);
+    return;
+  }
+
+  if (action !== "register" && action !== "diff") {
+    console.error(`Unknown command: ${action}\n\n${USAGE}`);
+    Deno.exit(1);
+  }
+
+  if (!module) {
+    console.error(`Missing routes module\n\n${USAGE}`);
+    Deno.exit(1);
+  }
+
+  const url = new URL(module, `file://${Deno.cwd()}/`);
+  const { default: routes } = await import(url.href) as {
+    default: Record<string, Handler | Route>;
+  };
+  const commands = commandsFromRoutes(routes);
+
+  if (action === "register") {
+    const diffs = await registerCommands(commands, options);
+    Object.entries(diffs).forEach(printDiff);
+    return;
+  }
+
+  const lists = await listCommands(options);
+  for (const [scope, existing] of Object.entries(lists)) {
+    printDiff([scope, diffCommands(existing, commands)]);
+  }
+}
+
+function printDiff([scope, { created, updated, deleted }]: [
+  string,
+  CommandDiff,
+]) {
+  console.log(`${scope}:`);
+  if (!created.length && !updated.length && !deleted.length) {
+    console.log("  No changes");
+  }
+  created.forEach((name) => console.log(`  + ${name}`));
+  updated.forEach((name) => console.log(`  ~ ${name}`));
+  deleted.forEach((name) => console.log(`  - ${name}`));
+}
+
+if (import.meta.main) {
+  await main(Deno.args);
+}
@@ -1,18 +1,8 @@
 export type { ConnInfo } from "https://deno.land/std@0.177.0/http/server.ts";
+export { parse as parseFlags } from "https://deno.land/std@0.177.0/flags/mod.ts";
+export { indexOfNeedle } from "https://deno.land/std@0.177.0/bytes/index_of_needle.ts";
+export { parse as parseYaml } from "https://deno.land/std@0.177.0/encoding/yaml.ts";
 
 // TweetNaCl is a cryptography library that we use to verify requests
 // from Discord.
 export { verify } from "https://esm.sh/watsign@0.1.8";
-
-export {
-  ApplicationCommandOptionType,
-  InteractionResponseType,
-  InteractionType,
-} from "https://deno.land/x/discord_slash_commands@1.0.8/src/structures/index.ts";
-
-export type {
-  ApplicationCommand,
-  ApplicationCommandInteractionData,
-  ApplicationCommandOption,
-  PartialApplicationCommand,
-} from "https://deno.land/x/discord_slash_commands@1.0.8/src/structures/index.ts";
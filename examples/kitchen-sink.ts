@@ -13,7 +13,10 @@ serve(
     "/fetch/:url": async (_request, _connInfo, { url }) => {
       // Discord only allows attachments up to 25MB.
       const response = await fetch(url);
-      // TODO: Handle errors
+      // Error responses are displayed as an error message.
+      if (!response.ok) {
+        return response;
+      }
       const headers = new Headers(response.headers);
       if (!headers.has("Content-Disposition")) {
         headers.set("Content-Disposition", `attachment; filename="attachment"`);
@@ -1 +1,2 @@
 export * from "./router.ts";
+export * from "./rest.ts";
@@ -0,0 +1,215 @@
+/** Major params, which have their own rate limits for the same route. */
+const MAJOR_REGEX = /\/(?:channels\/\d+|guilds\/\d+|webhooks\/\d+\/[^/?]+)/;
+
+export interface RestOptions {
+  /** Default to `https://discord.com/api`. */
+  baseUrl?: string;
+  /** API version, default to `Deno.env.get("DISCORD_API_VERSION")`. */
+  version?: string | number;
+  /** Implementation of `fetch` to send requests with. */
+  fetch?: typeof fetch;
+  /** Number of times to retry on rate limit, server or network errors. */
+  retries?: number;
+}
+
+interface Limit {
+  remaining: number;
+  /** Timestamp when the limit resets. */
+  resetAt: number;
+}
+
+interface Pending {
+  init: RequestInit;
+  response?: Promise<Response>;
+}
+
+/**
+ * A client for Discord's REST API that respects its rate limits.
+ *
+ * Requests to the same route are queued, and wait for their rate limit bucket
+ * to reset when it runs out. Rate limited requests are retried after the
+ * `Retry-After` duration, and server or network errors are retried with
+ * exponential backoff.
+ *
+ * Pending edits to the same message are coalesced, so only the latest one is
+ * sent, and all of their callers get its response.
+ */
+export class RestClient {
+  #baseUrl: string;
+  #fetch: typeof fetch;
+  #retries: number;
+  /** Last request of each route, for the next one to wait on. */
+  #queues = new Map<string, Promise<unknown>>();
+  /** Rate limit bucket of each route, from `X-RateLimit-Bucket`. */
+  #buckets = new Map<string, string>();
+  #limits = new Map<string, Limit>();
+  #globalResetAt = 0;
+  /** Queued edits by their URL, which have not been sent. */
+  #pending = new Map<string, Pending>();
+
+  constructor(options: RestOptions = {}) {
+    const {
+      baseUrl = "https://discord.com/api",
+      version = Deno.env.get("DISCORD_API_VERSION"),
+      // Looks up the global `fetch` on each request, in case it is replaced.
+      fetch = (input, init) => globalThis.fetch(input, init),
+      retries = 3,
+    } = options;
+
+    this.#baseUrl = `${baseUrl.replace(/\/$/, "")}${
+      version ? `/v${version}` : ""
+    }`;
+    this.#fetch = fetch;
+    this.#retries = retries;
+  }
+
+  /**
+   * Queues a request to an API path, i.e. `/applications/123/commands`.
+   */
+  request(path: string, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method || "GET").toUpperCase();
+    const route = routeFromPath(method, path);
+    const key = `${method} ${path}`;
+
+    // Replaces the body of a pending edit to the same message, unless one of
+    // them uploads files.
+    const pending = method === "PATCH" ? this.#pending.get(key) : undefined;
+    if (
+      pending &&
+      !(pending.init.body instanceof FormData) &&
+      !(init.body instanceof FormData)
+    ) {
+      pending.init = init;
+      return pending.response!;
+    }
+
+    const entry: Pending = { init };
+    const previous = this.#queues.get(route) || Promise.resolve();
+    const response = previous.then(() => {
+      if (this.#pending.get(key) === entry) {
+        this.#pending.delete(key);
+      }
+      return this.#send(route, path, entry.init);
+    });
+    entry.response = response;
+
+    if (method === "PATCH") {
+      this.#pending.set(key, entry);
+    }
+
+    const queue = response.catch(() => {}).then(() => {
+      if (this.#queues.get(route) === queue) {
+        this.#queues.delete(route);
+      }
+    });
+    this.#queues.set(route, queue);
+
+    return response;
+  }
+
+  async #send(
+    route: string,
+    path: string,
+    init: RequestInit,
+    attempt = 0,
+  ): Promise<Response> {
+    await this.#wait(route, path);
+
+    let response: Response;
+    try {
+      response = await this.#fetch(`${this.#baseUrl}${path}`, init);
+    } catch (error) {
+      if (attempt >= this.#retries) {
+        throw error;
+      }
+      await delay(backoff(attempt));
+      return this.#send(route, path, init, attempt + 1);
+    }
+
+    const { status, headers } = response;
+    this.#update(route, path, headers);
+
+    if (status === 429 && attempt < this.#retries) {
+      await response.body?.cancel();
+      const retryAfter = Number(headers.get("Retry-After")) ||
+        Number(headers.get("X-RateLimit-Reset-After")) || 1;
+      if (headers.get("X-RateLimit-Global")) {
+        this.#globalResetAt = Date.now() + retryAfter * 1000;
+      }
+      await delay(retryAfter * 1000);
+      return this.#send(route, path, init, attempt + 1);
+    }
+
+    if (status >= 500 && attempt < this.#retries) {
+      await response.body?.cancel();
+      await delay(backoff(attempt));
+      return this.#send(route, path, init, attempt + 1);
+    }
+
+    return response;
+  }
+
+  /** Waits for the global and the route's rate limit to reset, if needed. */
+  async #wait(route: string, path: string) {
+    let until = this.#globalResetAt;
+    const limit = this.#limits.get(this.#bucketKey(route, path));
+    if (limit && limit.remaining <= 0) {
+      until = Math.max(until, limit.resetAt);
+    }
+
+    const duration = until - Date.now();
+    if (duration > 0) {
+      await delay(duration);
+    }
+  }
+
+  /** Updates the route's rate limit from response headers. */
+  #update(route: string, path: string, headers: Headers) {
+    const bucket = headers.get("X-RateLimit-Bucket");
+    if (bucket) {
+      this.#buckets.set(route, bucket);
+    }
+
+    const remaining = headers.get("X-RateLimit-Remaining");
+    const resetAfter = headers.get("X-RateLimit-Reset-After");
+    if (remaining !== null && resetAfter !== null) {
+      this.#limits.set(this.#bucketKey(route, path), {
+        remaining: Number(remaining),
+        resetAt: Date.now() + Number(resetAfter) * 1000,
+      });
+    }
+  }
+
+  /** Routes sharing a bucket share its limit, per major params. */
+  #bucketKey(route: string, path: string) {
+    const bucket = this.#buckets.get(route);
+    if (!bucket) {
+      return route;
+    }
+    const [major = ""] = path.match(MAJOR_REGEX) || [];
+    return `${bucket}${major}`;
+  }
+}
+
+/**
+ * Identifies the route of a request, i.e. `PATCH /webhooks/1/abc/messages/:id`.
+ *
+ * IDs other than major params are replaced, since they share the same limit.
+ */
+function routeFromPath(method: string, path: string): string {
+  const [pathname] = path.split("?");
+  const [major = ""] = pathname.match(MAJOR_REGEX) || [];
+  const index = pathname.indexOf(major) + major.length;
+  const rest = pathname.substring(index)
+    .replace(/\/(?:\d+|@original)(?=\/|$)/g, "/:id");
+  return `${method} ${pathname.substring(0, index)}${rest}`;
+}
+
+/** Exponential backoff with jitter, starting at half a second. */
+function backoff(attempt: number): number {
+  return 500 * 2 ** attempt + Math.random() * 250;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,28 +1,177 @@
-import {
-  ApplicationCommandInteractionData,
-  ApplicationCommandOption,
-  ApplicationCommandOptionType,
-  ConnInfo,
-  InteractionResponseType,
-  InteractionType,
-  PartialApplicationCommand,
-  verify,
-} from "./deps.ts";
-
-const DISCORD_API_VERSION = Deno.env.get("DISCORD_API_VERSION");
-const DISCORD_BASE_URL = `https://discord.com/api${
-  DISCORD_API_VERSION ? `/v${DISCORD_API_VERSION}` : ""
-}`;
+import { ConnInfo, indexOfNeedle, parseYaml, verify } from "./deps.ts";
+import { RestClient } from "./rest.ts";
+
+/** Discord only waits 3 seconds for autocomplete results. */
+const AUTOCOMPLETE_TIMEOUT = 2500;
+
+/** Discord only waits 3 seconds for the initial response, i.e. a modal. */
+const MODAL_TIMEOUT = 2500;
+
+/**
+ * Interaction tokens are valid for 15 minutes, so updates move to a channel
+ * message a minute before that.
+ */
+const TOKEN_LIFETIME = 14 * 60 * 1000;
+
+/** Custom ID of Cancel buttons, followed by the interaction's ID. */
+const CANCEL_PREFIX = "#cancel:";
+
+/** Properties of an embed, to tell embeds from other JSON. */
+const EMBED_KEYS = [
+  "title",
+  "description",
+  "url",
+  "timestamp",
+  "color",
+  "footer",
+  "image",
+  "thumbnail",
+  "author",
+  "fields",
+];
+
+/** Fields that Discord adds to registered commands. */
+const COMMAND_FIELDS_IGNORED = ["id", "application_id", "version", "guild_id"];
+
+/** Default values of command and option fields on Discord. */
+const FIELD_DEFAULTS: Record<string, unknown> = {
+  dm_permission: true,
+  nsfw: false,
+  required: false,
+  autocomplete: false,
+  options: [],
+  choices: [],
+  channel_types: [],
+  // Installable to guilds only.
+  integration_types: [0],
+};
+
+/** Maximum length of an embed's description. */
+const DESCRIPTION_LIMIT = 4096;
+
+/** YAML frontmatter at the start of a Markdown document. */
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)([\s\S]*)$/;
 
 const NAME_REGEX = /^[-_\p{L}\p{N}\p{sc=Deva}\p{sc=Thai}]{1,32}$/u;
 
+/** Type annotation of a route option, i.e. `<integer(2..100)>`. */
+const TYPE_REGEX = /^<([a-z]+)(?:\(([^)]*)\))?>/;
+
+/**
+ * An ANSI escape sequence: CSI with its params and command, OSC, charset
+ * designation, i.e. `\x1b(B` from `tput sgr0`, or other.
+ */
+const ESCAPE_REGEX =
+  // deno-lint-ignore no-control-regex
+  /^\x1b(?:\[([\d;?]*)([@-~])|\][^\x07\x1b]*(?:\x07|\x1b\\)|[()][0-9A-Za-z]|[@-Z\\-_])/;
+
+/** An escape sequence cut off at the end of a chunk. */
+// deno-lint-ignore no-control-regex
+const PARTIAL_ESCAPE_REGEX = /^\x1b(?:\[[\d;?]*|\][^\x07\x1b]*|[()])?$/;
+
+/** Select Graphic Rendition, i.e. `\x1b[1;31m` for bold red. */
+// deno-lint-ignore no-control-regex
+const SGR_REGEX = /\x1b\[[\d;]*m/;
+
+/** Discord only shows colors in an ANSI code block. */
+const ANSI_BLOCK = "```ansi\n\n```";
+
+/**
+ * Interaction types.
+ *
+ * Unlike the one from `discord_slash_commands`, this includes component,
+ * autocomplete and modal interactions.
+ */
+export enum InteractionType {
+  PING = 1,
+  APPLICATION_COMMAND = 2,
+  MESSAGE_COMPONENT = 3,
+  APPLICATION_COMMAND_AUTOCOMPLETE = 4,
+  MODAL_SUBMIT = 5,
+}
+
+/**
+ * Interaction response types.
+ *
+ * Unlike the one from `discord_slash_commands`, this includes responses for
+ * component, autocomplete and modal interactions.
+ */
+export enum InteractionResponseType {
+  PONG = 1,
+  CHANNEL_MESSAGE_WITH_SOURCE = 4,
+  /** Deferred channel message, showing a loading state. */
+  ACK_WITH_SOURCE = 5,
+  DEFERRED_UPDATE_MESSAGE = 6,
+  UPDATE_MESSAGE = 7,
+  APPLICATION_COMMAND_AUTOCOMPLETE_RESULT = 8,
+  MODAL = 9,
+}
+
+/**
+ * Application command types, which are slash commands or context menu
+ * commands on users and messages.
+ */
+export enum CommandType {
+  CHAT_INPUT = 1,
+  USER = 2,
+  MESSAGE = 3,
+}
+
+/**
+ * Application command option types.
+ *
+ * Unlike `ApplicationCommandOptionType`, this includes `MENTIONABLE` and
+ * `NUMBER` options.
+ */
+export enum OptionType {
+  SUB_COMMAND = 1,
+  SUB_COMMAND_GROUP = 2,
+  STRING = 3,
+  INTEGER = 4,
+  BOOLEAN = 5,
+  USER = 6,
+  CHANNEL = 7,
+  ROLE = 8,
+  MENTIONABLE = 9,
+  NUMBER = 10,
+}
+
+/** Option types by their name in route's type annotation. */
+const OPTION_TYPES: Record<string, OptionType> = {
+  string: OptionType.STRING,
+  integer: OptionType.INTEGER,
+  number: OptionType.NUMBER,
+  boolean: OptionType.BOOLEAN,
+  user: OptionType.USER,
+  channel: OptionType.CHANNEL,
+  role: OptionType.ROLE,
+  mentionable: OptionType.MENTIONABLE,
+};
+
+/** Channel types by their name in `<channel(text,voice)>` annotation. */
+const CHANNEL_TYPES: Record<string, number> = {
+  text: 0,
+  dm: 1,
+  voice: 2,
+  group_dm: 3,
+  category: 4,
+  announcement: 5,
+  announcement_thread: 10,
+  public_thread: 11,
+  private_thread: 12,
+  stage: 13,
+  directory: 14,
+  forum: 15,
+  media: 16,
+};
+
 export type Snowflake = string;
 
 export type Interaction = {
   id: Snowflake;
   application_id: Snowflake;
-  type: Exclude<InteractionType, InteractionType.APPLICATION_COMMAND>;
-  data?: ApplicationCommandInteractionData;
+  type: InteractionType;
+  data?: InteractionData;
   guild_id?: Snowflake;
   channel_id?: Snowflake;
   member?: GuildMember;
@@ -30,10 +179,77 @@ export type Interaction = {
   token: string;
   version: number;
   message: Message;
+  /** Permissions of the app in the channel. */
+  app_permissions?: string;
   locale: string;
   guild_locale: string;
 };
 
+export type InteractionData = {
+  id: Snowflake;
+  name: string;
+  type?: number;
+  options?: InteractionDataOption[];
+  /** Custom ID of the clicked component or submitted modal. */
+  custom_id?: string;
+  component_type?: number;
+  /** Action rows of the submitted modal's text inputs. */
+  components?: Component[];
+  /** ID of the user or message of a context menu command. */
+  target_id?: Snowflake;
+  /** Users, members and messages referenced by the interaction, by ID. */
+  resolved?: {
+    users?: Record<Snowflake, User>;
+    members?: Record<Snowflake, GuildMember>;
+    messages?: Record<Snowflake, Record<string, unknown>>;
+  };
+};
+
+export type InteractionDataOption = {
+  name: string;
+  type: OptionType;
+  value?: string | number | boolean;
+  options?: InteractionDataOption[];
+  /** Whether the user is typing this option, for autocomplete. */
+  focused?: boolean;
+};
+
+export type Command = {
+  /** Default to `CHAT_INPUT`. */
+  type?: CommandType;
+  name: string;
+  name_localizations?: Localizations;
+  description: string;
+  description_localizations?: Localizations;
+  options?: CommandOption[];
+  default_member_permissions?: string | null;
+  dm_permission?: boolean;
+  nsfw?: boolean;
+};
+
+export type CommandOption = {
+  type: OptionType;
+  name: string;
+  name_localizations?: Localizations;
+  description: string;
+  description_localizations?: Localizations;
+  required?: boolean;
+  choices?: Choice[];
+  options?: CommandOption[];
+  channel_types?: number[];
+  min_value?: number;
+  max_value?: number;
+  min_length?: number;
+  max_length?: number;
+  autocomplete?: boolean;
+};
+
+export type Choice = {
+  name: string;
+  name_localizations?: Localizations;
+  value: string | number;
+};
+
 export type GuildMember = {
   user?: User;
   nick?: string;
@@ -69,12 +285,41 @@ export type User = {
 
 interface Message {
   id?: Snowflake;
+  flags?: number;
   content: string;
-  embeds: never[];
+  embeds: Embed[];
   components: Component[];
   attachments: Partial<Attachment>[];
 }
 
+interface Embed {
+  title?: string;
+  description?: string;
+  url?: string;
+  timestamp?: string;
+  color?: number;
+  footer?: {
+    text: string;
+    icon_url?: string;
+  };
+  image?: {
+    url: string;
+  };
+  thumbnail?: {
+    url: string;
+  };
+  author?: {
+    name: string;
+    url?: string;
+    icon_url?: string;
+  };
+  fields?: {
+    name: string;
+    value: string;
+    inline?: boolean;
+  }[];
+}
+
 interface Component {
   type: number;
   custom_id?: string;
@@ -88,6 +333,34 @@ interface Component {
   url?: string;
   disabled?: boolean;
   components?: Component[];
+  // Text inputs
+  placeholder?: string;
+  min_length?: number;
+  max_length?: number;
+  required?: boolean;
+  value?: string;
+}
+
+/** An event of a `text/event-stream` body. */
+interface ServerSentEvent {
+  /** Default to `message`. */
+  event: string;
+  data: string;
+}
+
+/** Problem Details for HTTP APIs (RFC 9457). */
+interface Problem {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+}
+
+interface Modal {
+  custom_id: string;
+  title: string;
+  components: Component[];
 }
 
 interface Attachment {
@@ -106,6 +379,151 @@ export type Handler = (
   params: Record<string, string>,
 ) => Response | Promise<Response>;
 
+/**
+ * A function around handlers, which calls `next` to continue the chain, with
+ * the same or a new request. It can also respond without calling `next`, or
+ * change the response from it.
+ */
+export type Middleware = (
+  request: Request,
+  connInfo: ConnInfo,
+  params: Record<string, string>,
+  next: (request?: Request) => Promise<Response>,
+) => Response | Promise<Response>;
+
+/** Localized texts by locale, i.e. `{ "vi": "Xin chào" }`. */
+export type Localizations = Partial<Record<string, string>>;
+
+/** Name and description localizations of a command, group or option. */
+export interface Metadata {
+  description?: string;
+  name_localizations?: Localizations;
+  description_localizations?: Localizations;
+}
+
+/**
+ * Metadata of an option.
+ *
+ * An option with `autocomplete` handler has its values suggested by it. The
+ * handler receives the partial value in the option's search param, and
+ * responds with JSON array or newline-separated list of choices.
+ */
+export interface OptionMetadata extends Metadata {
+  autocomplete?: Handler;
+}
+
+/**
+ * A route handler with metadata for its command.
+ *
+ * For nested routes, the metadata is of the subcommand, while `command` and
+ * `group` describe the command and subcommand group containing it.
+ */
+export interface Route extends Metadata {
+  handler: Handler;
+  /** Metadata of the options by name. */
+  options?: Record<string, OptionMetadata>;
+  command?: Metadata;
+  group?: Metadata;
+  default_member_permissions?: string | null;
+  dm_permission?: boolean;
+  nsfw?: boolean;
+  /** Whether responses are only visible to the user by default. */
+  ephemeral?: boolean;
+  /** Overrides the router's `overflow` option. */
+  overflow?: Overflow;
+  /** Who can use the route from Discord. */
+  guard?: Guard;
+  /** Overrides the router's `cancel` option. */
+  cancel?: Cancel;
+  /** Middleware around the handler, after the router's ones. */
+  middleware?: Middleware[];
+  /**
+   * Registers the route as a context menu command on users or messages,
+   * instead of a slash command.
+   */
+  context?: "user" | "message";
+  /** Name of the context menu command, default to the route's first segment. */
+  name?: string;
+}
+
+/**
+ * Restricts who can use a route from Discord. A user must pass all of the
+ * provided checks.
+ *
+ * For a command without subcommands, `permissions` is also its default
+ * `default_member_permissions`, so Discord hides it from members without them.
+ */
+export interface Guard {
+  /** IDs of the users allowed. */
+  users?: Snowflake[];
+  /** IDs of the roles, any of which the user must have. */
+  roles?: Snowflake[];
+  /** Permission bits the user must have, i.e. `"8"` for Administrator. */
+  permissions?: string;
+  /** IDs of the guilds allowed, which excludes DMs. */
+  guilds?: Snowflake[];
+}
+
+/**
+ * Whether streamed responses have a Cancel button, which aborts the request's
+ * signal and stops the stream.
+ *
+ * Only the user who invoked the command can cancel, or also members with the
+ * `permissions` bits, i.e. `{ permissions: "8192" }` for Manage Messages.
+ */
+export type Cancel = boolean | { permissions: string };
+
+/**
+ * What to do when streamed text exceeds the character limit of a message.
+ *
+ * - `truncate`: drops the text from the start.
+ * - `followup`: keeps the full message and continues in a follow-up message.
+ */
+export type Overflow = "truncate" | "followup";
+
+/**
+ * Who can call routes over HTTP.
+ *
+ * - `true`: anyone.
+ * - `false`: no one, only Discord interactions are handled.
+ * - `localhost`: only requests from the same host.
+ * - `{ bearer }`: requests with `Authorization: Bearer <bearer>`.
+ * - `{ hmac }`: requests with `X-Signature-HMAC-SHA256`, which is the hex
+ *   HMAC-SHA256 of `X-Signature-Timestamp`, the method, the path with search
+ *   and the body, signed with `hmac` as the secret.
+ */
+export type HttpAccess =
+  | boolean
+  | "localhost"
+  | { bearer: string }
+  | { hmac: string };
+
+/** A route with its parsed options. */
+interface Endpoint {
+  /** The route without type annotations, i.e. `/roll/:sides?private=` */
+  route: string;
+  handler: Handler;
+  /** URL pattern to match web requests against the route. */
+  pattern: URLPattern;
+  /** Options of the (sub)command. */
+  options: CommandOption[];
+  /** Autocomplete handlers by option name. */
+  autocomplete: Record<string, Handler>;
+  ephemeral: boolean;
+  overflow: Overflow;
+  guard?: Guard;
+  cancel: Cancel;
+}
+
+/** A streaming response with a Cancel button. */
+interface Task {
+  /** ID of the user who invoked the command. */
+  userId?: Snowflake;
+  /** Permission bits of others who can cancel. */
+  permissions?: string;
+  cancel(userId: Snowflake): void;
+}
+
 interface Options {
   applicationId?: Snowflake;
   publicKey?: Snowflake;
@@ -115,38 +533,50 @@ interface Options {
   endpoint?: string;
   rateLimit?: number;
   characterLimit?: number;
+  uploadLimit?: number;
+  overflow?: Overflow;
+  /** Whether streamed responses have a Cancel button, default to `false`. */
+  cancel?: Cancel;
   serveOnly?: boolean;
+  /** Base URL of Discord's API, default to `https://discord.com/api`. */
+  apiBaseUrl?: string;
+  /** Default to `Deno.env.get("DISCORD_API_VERSION")`. */
+  apiVersion?: string | number;
+  /** Implementation of `fetch` for requests to Discord's API. */
+  fetch?: typeof fetch;
+  /** Who can call routes over HTTP, default to anyone. */
+  http?: HttpAccess;
+  /** Middleware around all handlers, including autocomplete ones. */
+  middleware?: Middleware[];
+  /** Called with errors from handlers, instead of logging them. */
+  onError?: (error: unknown, request: Request) => void | Promise<void>;
 }
 
-export function router(routes: Record<string, Handler>, options: Options = {}) {
+export function router(
+  routes: Record<string, Handler | Route>,
+  options: Options = {},
+) {
   const {
     applicationId = Deno.env.get("DISCORD_APPLICATION_ID") || "",
     publicKey = Deno.env.get("DISCORD_PUBLIC_KEY") || "",
+    authToken = Deno.env.get("DISCORD_BOT_TOKEN") || "",
+    tokenPrefix = "Bot",
     endpoint = "/",
     rateLimit = 1000,
     characterLimit = 2000,
+    uploadLimit = 25 * 1024 * 1024,
     serveOnly = false,
+    http = true,
+    onError = (error: unknown) => console.error(error),
   } = options;
 
-  const commands: PartialApplicationCommand[] = [];
-  const handlers: Record<string, Handler> = {};
-
-  for (const [route, handler] of Object.entries(routes)) {
-    // Ensures the handler's name is the route.
-    Object.defineProperty(handler, "name", { value: route });
-
-    const url = new URL(route, "http://localhost");
-    // Creates application command from the route.
-    const command = commandFromUri(url, handler);
-    if (command) {
-      commands.push(command);
-      // Stores the route handler as a property of this instance by command name.
-      handlers[command.name] = handler;
-    }
-  }
+  const rest = clientFromOptions(options);
+  const [commands, endpoints] = endpointsFromRoutes(routes, options);
+  /** Running tasks by their interaction's ID. */
+  const tasks = new Map<Snowflake, Task>();
 
   if (!serveOnly) {
-    registerCommands(commands, options);
+    registerCommands(commands, options, rest);
   }
 
   async function validate(
@@ -180,6 +610,99 @@ export function router(routes: Record<string, Handler>, options: Options = {}) {
     return { body };
   }
 
+  /**
+   * Checks if a HTTP request can call routes, according to the `http` option.
+   *
+   * @returns The request without the credentials it was authorized with and
+   * any `X-Discord-*` headers, which only the router sets, or an error.
+   */
+  async function authorize(
+    request: Request,
+    connInfo: ConnInfo,
+  ): Promise<Request | Response> {
+    const headers = new Headers(request.headers);
+    [...headers.keys()].forEach((name) => {
+      if (name.startsWith("x-discord-")) headers.delete(name);
+    });
+
+    if (http === "localhost") {
+      const { hostname = "" } = connInfo.remoteAddr as Deno.NetAddr;
+      if (!/^(?:127\.|::1$|::ffff:127\.|localhost$)/.test(hostname)) {
+        return Response.json({ error: "Forbidden" }, { status: 403 });
+      }
+    } else if (typeof http === "object" && "bearer" in http) {
+      const authorization = headers.get("Authorization") || "";
+      if (!await isSameSecret(authorization, `Bearer ${http.bearer}`)) {
+        return Response.json({ error: "Unauthorized" }, {
+          status: 401,
+          headers: { "WWW-Authenticate": "Bearer" },
+        });
+      }
+      headers.delete("Authorization");
+    } else if (typeof http === "object" && "hmac" in http) {
+      const signature = headers.get("X-Signature-HMAC-SHA256") || "";
+      const timestamp = headers.get("X-Signature-Timestamp") || "";
+      const { pathname, search } = new URL(request.url);
+      const body = await request.clone().text();
+      const key = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(http.hmac),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["verify"],
+      );
+
+      // Signatures older than 5 minutes can't be replayed.
+      const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+      const valid = /^[0-9a-f]{64}$/i.test(signature) && age <= 300 &&
+        await crypto.subtle.verify(
+          "HMAC",
+          key,
+          hexToUint8Array(signature),
+          new TextEncoder().encode(
+            `${timestamp}${request.method}${pathname}${search}${body}`,
+          ),
+        );
+      if (!valid) {
+        return Response.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      headers.delete("X-Signature-HMAC-SHA256");
+      headers.delete("X-Signature-Timestamp");
+    }
+
+    return new Request(request, { headers });
+  }
+
+  /** Reports an error to `onError`, which should not fail the response. */
+  async function report(error: unknown, request: Request) {
+    try {
+      await onError(error, request);
+    } catch (error) {
+      console.error(error);
+    }
+  }
+
+  /**
+   * Calls a handler, and turns its errors into 500 responses with Problem
+   * Details.
+   */
+  async function call(
+    handler: Handler,
+    request: Request,
+    connInfo: ConnInfo,
+    params: Record<string, string>,
+  ): Promise<Response> {
+    try {
+      return await handler(request, connInfo, params);
+    } catch (error) {
+      await report(error, request);
+      return Response.json(problemFromError(error), {
+        status: 500,
+        headers: { "Content-Type": "application/problem+json" },
+      });
+    }
+  }
+
   /**
    * Edits a response to an interaction.
    * @param token Interaction token
@@ -187,8 +710,8 @@ export function router(routes: Record<string, Handler>, options: Options = {}) {
    */
   function edit(token: string, message: Message | FormData) {
     if (message instanceof FormData) {
-      return fetch(
-        `${DISCORD_BASE_URL}/webhooks/${applicationId}/${token}/messages/@original`,
+      return rest.request(
+        `/webhooks/${applicationId}/${token}/messages/@original`,
         {
           method: "PATCH",
           body: message,
@@ -200,360 +723,2497 @@ export function router(routes: Record<string, Handler>, options: Options = {}) {
       ...data
     } = message;
 
-    return fetch(
-      `${DISCORD_BASE_URL}/webhooks/${applicationId}/${token}/messages/${id}`,
+    return rest.request(
+      `/webhooks/${applicationId}/${token}/messages/${id}`,
       {
         method: "PATCH",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, content: ansiBlock(data.content) }),
       },
     );
   }
 
-  return async function handleInteraction(
-    request: Request,
-    connInfo: ConnInfo,
-  ): Promise<Response> {
-    // Routing web requests first.
-    for (const { name, options = [] } of commands) {
-      let pathname = `/${name}`;
-      const searchParams: string[] = [];
-
-      options.forEach((option) => {
-        if (option.required) {
-          pathname += `/:${option.name}`;
-        } else {
-          searchParams.push(`{${option.name}=:${option.name}}?`);
-        }
-      });
-      const pattern = new URLPattern({
-        pathname,
-        search: searchParams.join("&"),
-      });
+  /**
+   * Creates a follow-up message for an interaction.
+   * @param token Interaction token
+   * @param message The message to create.
+   */
+  function followup(token: string, message: Message) {
+    const { id: _id, ...data } = message;
 
-      if (pattern.test(request.url)) {
-        const params: Record<string, string> = {};
-        const groups = pattern.exec(request.url)?.pathname.groups || {};
-        for (const [key, value] of Object.entries(groups)) {
-          params[key] = value!;
-        }
-        const response = await handlers[name](request, connInfo, params);
-        return response;
+    return rest.request(
+      `/webhooks/${applicationId}/${token}?wait=true`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ...data, content: ansiBlock(data.content) }),
+      },
+    );
+  }
+
+  /**
+   * Creates or edits a message in a channel with the bot token.
+   * @param channelId ID of the channel.
+   * @param message The message to send.
+   * @param id ID of the message to edit. If not provided, a new message is created.
+   */
+  function send(channelId: string, message: Message | FormData, id?: string) {
+    const headers: Record<string, string> = {
+      "Authorization": `${tokenPrefix} ${authToken}`,
+    };
+    let body: BodyInit = message as FormData;
+    if (!(message instanceof FormData)) {
+      // Channel messages can't be ephemeral.
+      const { id: _id, flags: _flags, ...data } = message;
+      headers["Content-Type"] = "application/json";
+      body = JSON.stringify({ ...data, content: ansiBlock(data.content) });
+    }
+
+    return rest.request(
+      `/channels/${channelId}/messages${id ? `/${id}` : ""}`,
+      {
+        method: id ? "PATCH" : "POST",
+        headers,
+        body,
+      },
+    );
+  }
+
+  /**
+   * Finds the endpoint matching an URL, and collects its params.
+   *
+   * Also returns an error if the params or search params are invalid.
+   */
+  function match(
+    url: string,
+  ): [Endpoint, Record<string, string>, string?] | undefined {
+    for (const endpoint of Object.values(endpoints)) {
+      const { pattern, options } = endpoint;
+      if (!pattern.test(url)) {
+        continue;
       }
+
+      const params: Record<string, string> = {};
+      const groups = pattern.exec(url)?.pathname.groups || {};
+      for (const [key, value] of Object.entries(groups)) {
+        params[key] = value!;
+      }
+
+      const values: Record<string, string> = { ...params };
+      new URL(url).searchParams.forEach((value, name) => {
+        if (value) values[name] = value;
+      });
+
+      return [endpoint, params, validateOptions(options, values)];
     }
+  }
 
-    const { error, body } = await validate(request);
-    if (error) {
-      return Response.json({ error }, { status: 401 });
+  /**
+   * Calls the handler with a request made from the interaction, and updates
+   * the interaction's message with the handler's response.
+   *
+   * A response with a HTML form is displayed as a modal instead, unless the
+   * interaction is a modal submission itself.
+   *
+   * A response with `Cache-Control: private` is only visible to the user,
+   * while `Cache-Control: public` is visible to everyone. Otherwise, the
+   * endpoint's `ephemeral` applies.
+   *
+   * Error responses, thrown errors and errors in the body stream are
+   * displayed as an error embed.
+   *
+   * Before the interaction token expires, updates move to a new message in
+   * the channel with the bot token, and the interaction's message links to
+   * it. Ephemeral responses are not moved, since they would become public.
+   *
+   * With the endpoint's `cancel`, a streamed body has a Cancel button until
+   * it ends. Clicking it aborts the request's signal and stops the stream.
+   *
+   * @param type The type of the initial response to the interaction.
+   * @param init Method and body of the request to the handler.
+   */
+  async function respond(
+    interaction: Interaction,
+    type: InteractionResponseType,
+    endpoint: Endpoint,
+    url: URL,
+    params: Record<string, string>,
+    connInfo: ConnInfo,
+    init: RequestInit = {},
+  ): Promise<Response> {
+    if (!isAllowed(interaction, endpoint.guard)) {
+      return ephemeral("You are not allowed to use this command.");
     }
 
-    const interaction: Interaction = JSON.parse(body!);
-    const {
-      // id,
-      type,
-      data,
-      // guild_id,
-      // channel_id,
-      member,
-      // user,
-      token,
-      // version,
-      // message,
-      locale,
-      guild_locale,
-    } = interaction;
+    const { token, channel_id: channelId, guild_id: guildId } = interaction;
+    const expiresAt = Date.now() + TOKEN_LIFETIME;
 
-    // Discord performs Ping interactions to test our application.
-    if (type === InteractionType.PING) {
+    const message: Message = {
+      content: "",
+      embeds: [],
+      components: [],
+      attachments: [],
+    };
+
+    // Sends initial response to Discord.
+    // It will be updated from the body stream.
+    message.content = "\r";
+
+    const abortController = new AbortController();
+
+    const newRequest = requestFromInteraction(
+      interaction,
+      url,
+      abortController.signal,
+      init,
+    );
+    let response = await call(endpoint.handler, newRequest, connInfo, params);
+    const { headers, status } = response;
+
+    const cacheControl = headers.get("Cache-Control") || "";
+    let isEphemeral = endpoint.ephemeral;
+    if (/\bprivate\b/i.test(cacheControl)) {
+      isEphemeral = true;
+    } else if (/\bpublic\b/i.test(cacheControl)) {
+      isEphemeral = false;
+    }
+    if (isEphemeral) {
+      message.flags = 64; // Ephemeral
+    }
+
+    // Responds with the error as a new message.
+    if (status >= 400) {
+      const problem = await problemFromResponse(response);
+      message.content = "";
+      message.embeds = [embedFromProblem(problem)];
       return Response.json({
-        type: InteractionResponseType.PONG,
+        type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+        data: message,
       });
     }
 
-    if (type === InteractionType.APPLICATION_COMMAND) {
-      const {
-        name,
-        options = [],
-      } = data as ApplicationCommandInteractionData;
-
-      const message: Message = {
-        content: "",
-        embeds: [],
-        components: [],
-        attachments: [],
-      };
-
-      // @ts-ignore Instance has this property by command's name.
-      const handler = handlers[name];
-      const route = handler.name; // User-defined route, i.e. `/hello/:name?age=`
+    /** Displays an error in the body stream after the content so far. */
+    async function fail(error: unknown) {
+      await report(error, newRequest);
+      message.embeds = [
+        ...message.embeds,
+        embedFromProblem(problemFromError(error)),
+      ];
+      await update(message).catch((error) => report(error, newRequest));
+    }
 
-      const params: Record<string, string> = {};
-      const url = new URL(route, request.url);
-      const searchParams = url.searchParams;
-
-      let optionCount = options.length;
-
-      /** Starts with optional options first, since we can check against `searchParams`. */
-      while (optionCount--) {
-        // @ts-ignore We know `option` has `value`
-        const { name, value } = options[optionCount];
-        /** Overrides the searchParam value with provided option value. */
-        if (searchParams.has(name)) {
-          searchParams.set(name, value);
-          /** Removes this option from provided option list. */
-          options!.splice(optionCount, 1);
-        }
+    if (
+      headers.get("Content-Type")?.startsWith("text/html") &&
+      interaction.type !== InteractionType.MODAL_SUBMIT &&
+      response.body
+    ) {
+      const [html, body] = await peekHtml(response.body);
+      // A form without action submits to the same route.
+      const modal = modalFromHtml(html, `${url.pathname}${url.search}`);
+      if (modal) {
+        await body.cancel();
+        return Response.json({
+          type: InteractionResponseType.MODAL,
+          data: modal,
+        });
       }
+      // Not a form, so continues with the whole body.
+      response = new Response(body, response);
+    }
 
-      /** At this point, `options` contains only required params. */
-      // @ts-ignore We know `option` has `value`
-      options!.forEach(({ name, value }) => {
-        params[name] = value; /** Collects here to pass to handler. */
-        url.pathname = url.pathname.replace(`:${name}`, value);
-      });
+    const { body } = response;
 
-      // Sends initial response to Discord.
-      // It will be updated from the body stream.
-      message.content = "\r";
+    /** ID of the channel message that updates moved to. */
+    let movedTo: string | undefined;
+    let moving: Promise<void> | undefined;
 
-      const abortController = new AbortController();
+    /** Continues in a channel message, and leaves a notice in the old one. */
+    async function move() {
+      if (!authToken || !channelId || isEphemeral) {
+        return;
+      }
 
-      const newRequest = new Request(url.href, {
-        headers: {
-          "Authorization": "Basic " + btoa(`${member!.user!.id}:`),
-          "Accept-Language": `${locale},${guild_locale};q=0.9`,
-        },
-        signal: abortController.signal,
+      const { id = "@original" } = message;
+      const response = await send(channelId, { ...message, attachments: [] });
+      if (!response.ok) {
+        console.error(`Failed to continue in channel ${channelId}`);
+        return;
+      }
+      ({ id: movedTo } = await response.json());
+      message.id = movedTo;
+
+      const link = `https://discord.com/channels/${
+        guildId || "@me"
+      }/${channelId}/${movedTo}`;
+      await edit(token, {
+        id,
+        content:
+          `Output continues in ${link}, as this message can only be updated for 15 minutes.`,
+        embeds: [],
+        components: [],
+        attachments: [],
       });
-      const response = await handler(newRequest, connInfo, params);
-      const { headers, body } = response;
-
-      // Displays linked resources as buttons.
-      const components = headers.get("Link")?.split(",").map((linkValue) => {
-        // <uri-reference>; param1=value1; param2="value2"
-        const [target, ...params] = linkValue.split(";");
-        const [_, uri] = target.match(/<([^>]*)>/) || [];
-        const href = decodeURIComponent(uri!);
-        const component: Component = {
-          type: 2, // Button
-          style: 1,
-        };
-        if (href.startsWith("/")) {
-          component.custom_id = href.substring(1);
-        } else {
-          component.url = href;
-          component.style = 5; // Link
-        }
+    }
 
-        params.forEach((param) => {
-          param = param.trim();
-          let [key, value = ""] = param.split("=");
-          value = value.trim().replace(/^"(.*)"$/, "$1");
-          if (key === "title") {
-            component.label = value;
-          }
+    /**
+     * Moves once, or keeps editing with the interaction token if that fails,
+     * i.e. when Discord is unavailable.
+     */
+    function moveOnce() {
+      return moving ??= move().catch((error) => report(error, newRequest));
+    }
 
-          if (key === "disabled") {
-            component.disabled = true;
-          }
-        });
+    /** Stops the timer to move, once the body has been sent. */
+    let stopMoving = () => {};
 
-        return component;
-      }) || [];
+    /** Moves before the interaction token expires, while the body is sent. */
+    function startMoving() {
+      const timerId = setTimeout(moveOnce, TOKEN_LIFETIME);
+      stopMoving = () => clearTimeout(timerId);
+    }
 
-      message.components.length = 0;
-      if (components.length) {
-        message.components.push({
-          type: 1, // Action Row, required for buttons.
-          components,
-        });
+    /** Edits the message, or the channel message it moved to. */
+    async function update(data: Message | FormData) {
+      if (Date.now() >= expiresAt) {
+        await moveOnce();
+      }
+      if (movedTo) {
+        const id = data instanceof FormData ? movedTo : data.id;
+        return send(channelId!, data, id);
+      }
+      return edit(token, data);
+    }
+
+    /** Creates a follow-up message, or a channel message after moving. */
+    async function post(data: Message) {
+      if (Date.now() >= expiresAt) {
+        await moveOnce();
+      }
+      if (movedTo) {
+        return send(channelId!, data);
       }
+      return followup(token, data);
+    }
 
-      const [attachment, filename] = headers.get("Content-Disposition")?.match(
-        /attachment(?:;\s+filename="(.*)")?/,
-      ) || [];
+    // Displays linked resources as buttons.
+    message.components = componentsFromLink(headers.get("Link") || "");
+
+    const [attachment] = headers.get("Content-Disposition")?.match(
+      /attachment/,
+    ) || [];
+    const [multipart, boundary = ""] = headers.get("Content-Type")?.match(
+      /^multipart\/(?:mixed|form-data);.*boundary="?([^";]+)"?/,
+    ) || [];
+
+    if (attachment || multipart) {
+      // Each part of a multipart body is a file, except text ones without
+      // filename, which are the message's content.
+      const parts = multipart
+        ? response.arrayBuffer().then((buffer) =>
+          partsFromMultipart(new Uint8Array(buffer), boundary)
+        )
+        : Promise.resolve([response]);
+
+      startMoving();
+      parts.then(async (parts) => {
+        const formData = new FormData();
+        let content = "";
+        let size = 0;
+
+        for (const part of parts) {
+          const { headers } = part;
+          const contentType = headers.get("Content-Type") || "";
+          const disposition = headers.get("Content-Disposition") || "";
+          const [, name = ""] = disposition.match(
+            /filename="?([^";]*)"?/,
+          ) || [];
+          const isText = !contentType || contentType.startsWith("text/");
+
+          if (!name && !disposition.startsWith("attachment") && isText) {
+            content += await part.text();
+            continue;
+          }
 
-      if (attachment) {
-        response.blob().then(async (blob) => {
+          const blob = await part.blob();
+          const index = message.attachments.length;
+          const filename = name || `attachment-${index}`;
           message.attachments.push({
-            id: "0",
+            id: String(index),
             filename,
-            content_type: headers.get("Content-Type") || "",
-            size: Number(headers.get("Content-Length")),
-            url: response.url,
+            description: headers.get("Content-Description") || undefined,
+            content_type: contentType,
+            size: blob.size,
+            url: part.url || undefined,
             ephemeral: true,
           });
+          formData.append(`files[${index}]`, blob, filename);
+          size += blob.size;
+        }
 
-          const formData = new FormData();
-          formData.append("payload_json", JSON.stringify(message));
-          formData.append("files[0]", blob, filename);
+        if (content) {
+          message.content = tail(wrapText(content), characterLimit);
+        }
 
-          const { status, statusText } = await edit(token, formData);
+        // Discord rejects the whole message if the files are too large.
+        if (size > uploadLimit) {
+          const files = message.attachments.map(({ filename, size = 0 }) =>
+            `- ${filename} (${formatSize(size)})`
+          );
+          message.attachments = [];
+          message.content = `Failed to upload files larger than ${
+            formatSize(uploadLimit)
+          } in total:\n${files.join("\n")}`;
+          await update(message);
+          return;
+        }
 
-          if (status === 404) {
-            // 404: Unknown interaction
-            // This means the user has deleted the interaction.
-            // Signals the handler to abort, but it's up to them to do so.
-            abortController.abort(statusText);
-          }
-        });
+        formData.append("payload_json", JSON.stringify(message));
+
+        const { status, statusText } = await update(formData);
+
+        if (status === 404) {
+          // 404: Unknown interaction
+          // This means the user has deleted the interaction.
+          // Signals the handler to abort, but it's up to them to do so.
+          abortController.abort(statusText);
+        }
+      }).catch(fail).finally(stopMoving);
+
+      // ACK the interaction with a message and we will update it with the attachment later.
+      return Response.json({
+        type,
+        data: message,
+      });
+    }
+
+    if (!body) {
+      // Nothing to stream, i.e. a 204 response, so the message is final.
+      update(message).catch((error) => report(error, newRequest));
+      return Response.json({
+        type,
+        data: message,
+      });
+    }
+
+    /** Rows of buttons added by the router, which are kept on updates. */
+    const controls: Component[] = [];
+    /** Aborts the body stream when cancelled. */
+    const canceller = new AbortController();
+    let cancelledBy: Snowflake | undefined;
+
+    if (endpoint.cancel) {
+      const { cancel } = endpoint;
+      controls.push({
+        type: 1, // Action Row
+        components: [{
+          type: 2, // Button
+          style: 4, // Danger
+          label: "Cancel",
+          custom_id: `${CANCEL_PREFIX}${interaction.id}`,
+        }],
+      });
+      message.components.push(...controls);
+
+      tasks.set(interaction.id, {
+        userId: (interaction.member?.user || interaction.user)?.id,
+        permissions: typeof cancel === "object"
+          ? cancel.permissions
+          : undefined,
+        cancel(userId) {
+          cancelledBy = userId;
+          abortController.abort("Cancelled");
+          canceller.abort();
+        },
+      });
+    }
+
+    /** Removes the Cancel button, and marks the message if cancelled. */
+    async function finish() {
+      stopMoving();
+      if (!controls.length) {
+        return;
+      }
+
+      tasks.delete(interaction.id);
+      message.components = message.components.filter((row) =>
+        !controls.includes(row)
+      );
+      if (cancelledBy) {
+        message.embeds = [
+          ...message.embeds,
+          { description: `Cancelled by <@${cancelledBy}>.` },
+        ];
+      }
+      await update(message).catch((error) => report(error, newRequest));
+    }
+
+    // JSON, Markdown and HTML bodies are rendered as a whole on each chunk.
+    const contentType = headers.get("Content-Type") || "";
+    const isStructured = /^(application\/json|text\/markdown|text\/html)/
+      .test(contentType);
+    // Each event of an event stream is a new state of the message.
+    const isEventStream = contentType.startsWith("text/event-stream");
+    let source = "";
+    /** Keeps the cursor and colors of streamed text between chunks. */
+    const terminal = new Terminal();
+    /** Fence of a code block continued from a previous follow-up message. */
+    let opening = "";
+
+    startMoving();
+    body
+      // Accumulates all chunks and enqueue them per second to avoid
+      // rate limiting from Discord.
+      .pipeThrough(new RateLimitStream(rateLimit))
+      .pipeThrough(new TextDecoderStream())
+      .pipeThrough(
+        new TransformStream({
+          async transform(chunk: string, _controller) {
+            if (!chunk) return;
+
+            if (isStructured) {
+              source += chunk;
+              const rendered = messageFromBody(
+                source,
+                contentType,
+                characterLimit,
+              );
+              // Waits for more chunks, i.e. the rest of a JSON body.
+              if (!rendered) return;
+              Object.assign(message, rendered);
+            } else if (isEventStream) {
+              let events: ServerSentEvent[];
+              [events, source] = eventsFromStream(source + chunk);
+              // Waits for the rest of an event.
+              if (!events.length) return;
+
+              /** Whether the message has changes that are not sent yet. */
+              let changed = false;
+              for (const { event, data } of events) {
+                if (event === "content" || event === "message") {
+                  message.content = tail(wrapText(data), characterLimit);
+                  changed = true;
+                } else if (event === "embed") {
+                  const json = JSON.parse(data);
+                  message.embeds = Array.isArray(json) ? json : [json];
+                  changed = true;
+                } else if (event === "components") {
+                  message.components = [
+                    ...componentsFromLink(data),
+                    ...controls,
+                  ];
+                  changed = true;
+                } else if (event === "followup") {
+                  // Sends the events before it first, to keep their order.
+                  if (changed) {
+                    await update(message);
+                    changed = false;
+                  }
+
+                  const rendered = messageFromBody(
+                    data,
+                    /^[[{]/.test(data) ? "application/json" : "text/plain",
+                    characterLimit,
+                  );
+                  await post({
+                    flags: message.flags,
+                    content: "",
+                    embeds: [],
+                    components: [],
+                    attachments: [],
+                    ...rendered,
+                  });
+                }
+                // Other events are ignored.
+              }
+
+              if (!changed) return;
+            } else if (endpoint.overflow === "followup") {
+              terminal.write(chunk);
+              let text = opening + terminal.toString();
+
+              // Freezes full messages, and continues in follow-up ones.
+              while (
+                text.length > limitFor(text, characterLimit) && terminal.row
+              ) {
+                const [page, count, fence] = pageFromTerminal(
+                  terminal,
+                  limitFor(text, characterLimit),
+                  opening,
+                );
+                terminal.shift(count);
+                opening = fence;
+                text = opening + terminal.toString();
+
+                await update({ ...message, content: page, components: [] });
+                message.content = tail(text, characterLimit);
+
+                const response = await post(message);
+                if (!response.ok) {
+                  break;
+                }
+                ({ id: message.id } = await response.json());
+              }
+
+              message.content = tail(text, characterLimit);
+            } else {
+              terminal.write(chunk).scroll(characterLimit);
+              // Trims the message to 2000 characters from the end.
+              message.content = tail(terminal.toString(), characterLimit);
+            }
+
+            const { status, statusText } = await update(message);
+
+            if (status === 404) {
+              // 404: Unknown interaction
+              // This means the user has deleted the interaction.
+              // Signals the handler to abort, but it's up to them to do so.
+              abortController.abort(statusText);
+            }
+          },
+        }),
+      )
+      .pipeThrough(new TextEncoderStream())
+      // Discards
+      .pipeTo(new WritableStream(), { signal: canceller.signal })
+      // Cancelling is not an error.
+      .catch((error) => cancelledBy ? undefined : fail(error))
+      .finally(finish);
+
+    return Response.json({
+      type,
+      data: message,
+    });
+  }
+
+  return async function handleInteraction(
+    request: Request,
+    connInfo: ConnInfo,
+  ): Promise<Response> {
+    // Routing web requests first, unless disabled.
+    const matched = http !== false && match(request.url);
+    if (matched) {
+      const [{ handler }, params, error] = matched;
+      const authorized = await authorize(request, connInfo);
+      if (authorized instanceof Response) {
+        return authorized;
+      }
+
+      if (error) {
+        return Response.json({ error }, { status: 400 });
+      }
+
+      const response = await call(handler, authorized, connInfo, params);
+      return response;
+    }
+
+    const { error, body } = await validate(request);
+    if (error) {
+      return Response.json({ error }, { status: 401 });
+    }
+
+    const interaction: Interaction = JSON.parse(body!);
+    const {
+      // id,
+      type,
+      data,
+      // guild_id,
+      // channel_id,
+      // member,
+      // user,
+      // token,
+      // version,
+      // message,
+      // locale,
+      // guild_locale,
+    } = interaction;
 
-        // ACK the interaction with a message and we will update it with the attachment later.
+    // Discord performs Ping interactions to test our application.
+    if (type === InteractionType.PING) {
+      return Response.json({
+        type: InteractionResponseType.PONG,
+      });
+    }
+
+    // Context menu commands post their target to the route as JSON, with its
+    // ID as the first param.
+    if (
+      type === InteractionType.APPLICATION_COMMAND &&
+      (data!.type === CommandType.USER || data!.type === CommandType.MESSAGE)
+    ) {
+      const { name, target_id, resolved = {} } = data!;
+      const context = data!.type === CommandType.USER ? "user" : "message";
+      const endpoint = endpoints[`${context}:${name}`];
+      if (!endpoint) {
+        return ephemeral(`Unknown command: ${name}`);
+      }
+
+      const target = context === "user"
+        ? {
+          ...resolved.users?.[target_id!],
+          member: resolved.members?.[target_id!],
+        }
+        : resolved.messages?.[target_id!];
+      const [param] = endpoint.options.filter(({ required }) => required);
+      const [url, params] = urlFromOptions(
+        endpoint.route,
+        param ? [{ ...param, value: target_id }] : [],
+        request.url,
+      );
+
+      return respond(
+        interaction,
+        InteractionResponseType.ACK_WITH_SOURCE,
+        endpoint,
+        url,
+        params,
+        connInfo,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(target),
+        },
+      );
+    }
+
+    if (type === InteractionType.APPLICATION_COMMAND) {
+      const [name, options] = resolveOptions(data!);
+      const endpoint = endpoints[name];
+      if (!endpoint) {
+        return ephemeral(`Unknown command: ${name}`);
+      }
+      const { route } = endpoint; // i.e. `/hello/:name?age=`
+
+      const error = validateOptions(
+        endpoint.options,
+        Object.fromEntries(
+          options.map(({ name, value }) => [name, String(value)]),
+        ),
+      );
+      if (error) {
+        return ephemeral(error);
+      }
+
+      const [url, params] = urlFromOptions(route, options, request.url);
+
+      return respond(
+        interaction,
+        // Type 5 responds with an ACK retaining the user's input at the top.
+        InteractionResponseType.ACK_WITH_SOURCE,
+        endpoint,
+        url,
+        params,
+        connInfo,
+      );
+    }
+
+    // Suggests values for the option being typed.
+    if (type === InteractionType.APPLICATION_COMMAND_AUTOCOMPLETE) {
+      const [name, options] = resolveOptions(data!);
+      const { route, autocomplete = {}, guard } = endpoints[name] || {};
+      const focused = options.find(({ focused }) => focused);
+      const source = focused && autocomplete[focused.name];
+      if (!source || !isAllowed(interaction, guard)) {
         return Response.json({
-          // Type 5 responds with an ACK retaining the user's input at the top.
-          type: InteractionResponseType.ACK_WITH_SOURCE,
-          data: message,
+          type: InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT,
+          data: { choices: [] },
         });
       }
 
-      body!
-        // Accumulates all chunks and enqueue them per second to avoid
-        // rate limiting from Discord.
-        .pipeThrough(new RateLimitStream(rateLimit))
-        .pipeThrough(new TextDecoderStream())
-        .pipeThrough(
-          new TransformStream({
-            async transform(chunk: string, _controller) {
-              if (!chunk) return;
-
-              chunk = message.content + chunk;
-              // Wraps and trims the message to 2000 characters from the end.
-              message.content = wrapText(chunk).slice(-1 * characterLimit);
-              const { status, statusText } = await edit(token, message);
-
-              if (status === 404) {
-                // 404: Unknown interaction
-                // This means the user has deleted the interaction.
-                // Signals the handler to abort, but it's up to them to do so.
-                abortController.abort(statusText);
-              }
-            },
-          }),
-        )
-        .pipeThrough(new TextEncoderStream())
-        // Discards
-        .pipeTo(new WritableStream());
+      const [url, params] = urlFromOptions(route, options, request.url);
+      url.searchParams.set(focused.name, String(focused.value ?? ""));
+
+      const abortController = new AbortController();
+      const newRequest = requestFromInteraction(
+        interaction,
+        url,
+        abortController.signal,
+      );
+
+      let timeoutId: number | undefined;
+      const choices = await Promise.race([
+        call(source, newRequest, connInfo, params)
+          .then((response) => choicesFromResponse(response, focused.type))
+          .catch(() => []),
+        // Responds with no choices if the handler is too slow.
+        new Promise<Choice[]>((resolve) => {
+          timeoutId = setTimeout(() => {
+            abortController.abort("Autocomplete timed out");
+            resolve([]);
+          }, AUTOCOMPLETE_TIMEOUT);
+        }),
+      ]);
+      clearTimeout(timeoutId);
+
+      return Response.json({
+        type: InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT,
+        data: { choices },
+      });
+    }
+
+    // Modals from HTML forms have the form's action as their custom ID.
+    if (type === InteractionType.MODAL_SUBMIT) {
+      const url = new URL(`/${data!.custom_id}`, request.url);
+      const matched = match(url.href);
+      if (!matched) {
+        return ephemeral(`Unknown route: ${url.pathname}`);
+      }
+
+      const [endpoint, params, error] = matched;
+      if (error) {
+        return ephemeral(error);
+      }
+
+      // Submits the text inputs as an URL-encoded form.
+      const form = new URLSearchParams();
+      data!.components?.forEach(({ components = [] }) => {
+        components.forEach(({ custom_id, value = "" }) => {
+          form.append(custom_id!, value);
+        });
+      });
+
+      return respond(
+        interaction,
+        InteractionResponseType.ACK_WITH_SOURCE,
+        endpoint,
+        url,
+        params,
+        connInfo,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: form,
+        },
+      );
+    }
+
+    // Cancel buttons of running tasks.
+    if (
+      type === InteractionType.MESSAGE_COMPONENT &&
+      data!.custom_id?.startsWith(CANCEL_PREFIX)
+    ) {
+      const task = tasks.get(data!.custom_id.substring(CANCEL_PREFIX.length));
+      if (!task) {
+        return ephemeral("This task has already finished.");
+      }
+
+      const user = interaction.member?.user || interaction.user;
+      const { userId, permissions } = task;
+      if (
+        user?.id !== userId &&
+        !(permissions && isAllowed(interaction, { permissions }))
+      ) {
+        return ephemeral("You are not allowed to cancel this task.");
+      }
+
+      task.cancel(user!.id);
+      // The message is updated when the stream stops.
+      return Response.json({
+        type: InteractionResponseType.DEFERRED_UPDATE_MESSAGE,
+      });
+    }
+
+    // Buttons from `Link` header have the linked route as their custom ID.
+    if (type === InteractionType.MESSAGE_COMPONENT) {
+      const url = new URL(`/${data!.custom_id}`, request.url);
+      const matched = match(url.href);
+      if (!matched) {
+        return ephemeral(`Unknown route: ${url.pathname}`);
+      }
+
+      const [endpoint, params, error] = matched;
+      if (error) {
+        return ephemeral(error);
+      }
+
+      // Updates the message with the button, unless linked with `_blank`.
+      const responseType = url.hash === "#_blank"
+        ? InteractionResponseType.ACK_WITH_SOURCE
+        : InteractionResponseType.DEFERRED_UPDATE_MESSAGE;
+      url.hash = "";
+
+      return respond(
+        interaction,
+        responseType,
+        endpoint,
+        url,
+        params,
+        connInfo,
+      );
+    }
+
+    // We will return a bad request error as a valid Discord request
+    // shouldn't reach here.
+    return Response.json({ error: "bad request" }, { status: 400 });
+  };
+}
+
+/**
+ * Creates application commands from routes, and their endpoints by full
+ * command name, i.e. `admin roles add`.
+ *
+ * Handlers of the endpoints are wrapped in the router's and the route's
+ * middleware.
+ */
+function endpointsFromRoutes(
+  routes: Record<string, Handler | Route>,
+  { overflow = "truncate", cancel = false, middleware = [] }: Options = {},
+): [Command[], Record<string, Endpoint>] {
+  const commands: Command[] = [];
+  /** Endpoints by full command name, i.e. `admin roles add`. */
+  const endpoints: Record<string, Endpoint> = {};
+
+  for (const [route, value] of Object.entries(routes)) {
+    const metadata: Route = typeof value === "function"
+      ? { handler: value }
+      : value;
+    const { handler } = metadata;
+    // Ensures the handler's name is the route.
+    Object.defineProperty(handler, "name", { value: route });
+
+    const parsed = parseRoute(route, metadata.options);
+    if (!parsed) {
+      continue;
+    }
+
+    const [path, options] = parsed;
+    const url = new URL(path, "http://localhost");
+    // Creates application command from the route.
+    const command = metadata.context
+      ? commandFromContext(url, metadata)
+      : commandFromUri(url, options, metadata);
+    if (!command) {
+      continue;
+    }
+
+    // Routes sharing the same command name become its subcommands.
+    const existing = commands.find(({ name, type }) =>
+      name === command.name && type === command.type
+    );
+    if (!existing) {
+      commands.push(command);
+    } else if (!mergeCommand(existing, command)) {
+      console.error(`Conflicting route: ${route}`);
+      continue;
+    }
+
+    const [names] = segmentsFromPath(url.pathname);
+    const chain = [...middleware, ...metadata.middleware || []];
+    const autocomplete: Record<string, Handler> = {};
+    for (const [name, option] of Object.entries(metadata.options || {})) {
+      if (option.autocomplete) {
+        autocomplete[name] = compose(chain, option.autocomplete);
+      }
+    }
+
+    // Stores the route handler by its full command name, or its type and
+    // name for context menu commands, i.e. `message:Translate`.
+    const key = metadata.context
+      ? `${metadata.context}:${command.name}`
+      : names.join(" ");
+    endpoints[key] = {
+      route: path,
+      handler: compose(chain, handler),
+      pattern: patternFromUri(url),
+      options,
+      autocomplete,
+      ephemeral: metadata.ephemeral ?? false,
+      overflow: metadata.overflow ?? overflow,
+      guard: metadata.guard,
+      cancel: metadata.cancel ?? cancel,
+    };
+  }
+
+  // Commands and subcommand groups without description use their name,
+  // except context menu commands, which can't have any.
+  commands.filter(({ type }) => !type).forEach(describe);
+
+  return [commands, endpoints];
+}
+
+/**
+ * Wraps a handler in middleware, with the first one being the outermost.
+ */
+function compose(middleware: Middleware[], handler: Handler): Handler {
+  return middleware.reduceRight<Handler>(
+    (next, middleware) => (request, connInfo, params) =>
+      middleware(
+        request,
+        connInfo,
+        params,
+        async (nextRequest = request) =>
+          await next(nextRequest, connInfo, params),
+      ),
+    handler,
+  );
+}
+
+/**
+ * Creates application commands from routes, i.e. to register them separately
+ * from the router.
+ */
+export function commandsFromRoutes(
+  routes: Record<string, Handler | Route>,
+): Command[] {
+  const [commands] = endpointsFromRoutes(routes);
+  return commands;
+}
+
+/**
+ * Creates a request for a handler from an interaction.
+ *
+ * The interaction's context is passed in `X-Discord-*` headers. In DMs, there
+ * are no guild, roles or member permissions.
+ */
+function requestFromInteraction(
+  interaction: Interaction,
+  url: URL,
+  signal: AbortSignal,
+  init: RequestInit = {},
+): Request {
+  const {
+    id,
+    guild_id,
+    channel_id,
+    member,
+    app_permissions,
+    locale,
+    guild_locale,
+  } = interaction;
+  // Guild interactions have the user in `member`, while DMs have it as is.
+  const user = member?.user || interaction.user!;
+
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", "Basic " + btoa(`${user.id}:`));
+  headers.set(
+    "Accept-Language",
+    guild_locale ? `${locale},${guild_locale};q=0.9` : locale,
+  );
+
+  // Only the router sets `X-Discord-*` headers, unlike `Authorization`.
+  const context: Record<string, string | undefined> = {
+    "Interaction-Id": id,
+    "Guild-Id": guild_id,
+    "Channel-Id": channel_id,
+    "User-Id": user.id,
+    // Header values can't have non-Latin1 characters.
+    "Username": encodeURIComponent(user.username),
+    "Roles": member?.roles.join(","),
+    "Permissions": member?.permissions,
+    "App-Permissions": app_permissions,
+  };
+  for (const [name, value] of Object.entries(context)) {
+    if (value !== undefined) {
+      headers.set(`X-Discord-${name}`, value);
+    }
+  }
+
+  return new Request(url.href, {
+    ...init,
+    headers,
+    signal,
+  });
+}
+
+/**
+ * Fills a route with the values of provided options.
+ *
+ * Optional options are set as search params, while required ones replace
+ * their params in the path and are also returned as `params`.
+ */
+function urlFromOptions(
+  route: string,
+  options: InteractionDataOption[],
+  base: string,
+): [URL, Record<string, string>] {
+  const params: Record<string, string> = {};
+  const url = new URL(route, base);
+  const searchParams = url.searchParams;
+
+  options.forEach(({ name, value }) => {
+    if (value === undefined) {
+      return;
+    }
+
+    /** Overrides the searchParam value with provided option value. */
+    if (searchParams.has(name)) {
+      searchParams.set(name, String(value));
+      return;
+    }
+
+    params[name] = String(value); /** Collects here to pass to handler. */
+    url.pathname = url.pathname.replace(`:${name}`, String(value));
+  });
+
+  return [url, params];
+}
+
+/**
+ * Reads autocomplete choices from a response.
+ *
+ * The body is either a JSON array of values or choices, or a newline-separated
+ * list of values.
+ */
+async function choicesFromResponse(
+  response: Response,
+  type: OptionType,
+): Promise<Choice[]> {
+  const contentType = response.headers.get("Content-Type") || "";
+  let values: (string | number | Choice)[];
+
+  if (contentType.includes("json")) {
+    values = await response.json();
+  } else {
+    const text = await response.text();
+    values = text.split(/\r?\n/).map((value) => value.trim()).filter(Boolean);
+  }
+
+  const numeric = type === OptionType.INTEGER || type === OptionType.NUMBER;
+
+  // Discord allows up to 25 choices, with names up to 100 characters.
+  return values.slice(0, 25).map((value) => {
+    if (typeof value === "object") {
+      return value;
+    }
+
+    return {
+      name: String(value).substring(0, 100),
+      value: numeric ? Number(value) : String(value),
+    };
+  });
+}
+
+/**
+ * Creates buttons from a `Link` header value, in an action row.
+ *
+ * Relative links are buttons that route back to the handlers, i.e.
+ * `</page/2>; title="Next"`, and others are link buttons.
+ */
+function componentsFromLink(link: string): Component[] {
+  if (!link.trim()) {
+    return [];
+  }
+
+  const components = link.split(",").map((linkValue) => {
+    // <uri-reference>; param1=value1; param2="value2"
+    const [target, ...params] = linkValue.split(";");
+    const [_, uri] = target.match(/<([^>]*)>/) || [];
+    const href = decodeURIComponent(uri!);
+    const component: Component = {
+      type: 2, // Button
+      style: 1,
+    };
+    if (href.startsWith("/")) {
+      component.custom_id = href.substring(1);
+    } else {
+      component.url = href;
+      component.style = 5; // Link
+    }
+
+    params.forEach((param) => {
+      param = param.trim();
+      let [key, value = ""] = param.split("=");
+      value = value.trim().replace(/^"(.*)"$/, "$1");
+      if (key === "title") {
+        component.label = value;
+      }
+
+      if (key === "disabled") {
+        component.disabled = true;
+      }
+
+      // Clicking on the button creates a new message instead of updating.
+      if (key === "target" && value === "_blank" && component.custom_id) {
+        component.custom_id += "#_blank";
+      }
+    });
+
+    return component;
+  });
+
+  return [{
+    type: 1, // Action Row, required for buttons.
+    components,
+  }];
+}
+
+/**
+ * Parses the complete events of a `text/event-stream` body so far, and returns
+ * them with the rest of the body, which may be an incomplete event.
+ */
+function eventsFromStream(source: string): [ServerSentEvent[], string] {
+  // Keeps a trailing "\r", which may be followed by a "\n" in the next chunk.
+  const blocks = source.replace(/\r\n|\r(?!$)/g, "\n").split("\n\n");
+  const rest = blocks.pop()!;
+
+  const events = blocks.flatMap((block) => {
+    let event = "message";
+    const data: string[] = [];
+
+    for (const line of block.split("\n")) {
+      const [, field, value = ""] = line.match(/^([^:]*)(?:: ?(.*))?$/) || [];
+      if (field === "event") {
+        event = value || "message";
+      }
+      if (field === "data") {
+        data.push(value);
+      }
+    }
+
+    // Events without data are not dispatched.
+    return data.length ? [{ event, data: data.join("\n") }] : [];
+  });
+
+  return [events, rest];
+}
+
+/**
+ * Renders the content and embeds of a message from a JSON, Markdown or HTML
+ * body.
+ *
+ * - JSON is either an embed, an array of embeds, or a message with `content`
+ *   and `embeds`. Other values are displayed in a JSON code block.
+ * - Markdown with YAML frontmatter is an embed, with the frontmatter as its
+ *   properties and the rest as its description. Without frontmatter, it is
+ *   the message's content.
+ * - HTML is an embed, see `embedFromHtml`.
+ *
+ * Returns `undefined` if the body is incomplete, i.e. a partial JSON.
+ */
+function messageFromBody(
+  body: string,
+  contentType: string,
+  characterLimit: number,
+): Pick<Message, "content" | "embeds"> | undefined {
+  if (contentType.startsWith("application/json")) {
+    let json;
+    try {
+      json = JSON.parse(body);
+    } catch {
+      return;
+    }
+
+    if (Array.isArray(json) && json.length && json.every(isEmbed)) {
+      return { content: "", embeds: json };
+    }
+
+    if (isObject(json) && ("content" in json || "embeds" in json)) {
+      const { content, embeds } = json;
+      return {
+        content: typeof content === "string" ? content : "",
+        embeds: Array.isArray(embeds) ? embeds.filter(isEmbed) : [],
+      };
+    }
+
+    if (isEmbed(json)) {
+      return { content: "", embeds: [json] };
+    }
+
+    const codeBlock = "```json\n\n```";
+    const text = JSON.stringify(json, null, 2);
+    return {
+      content: codeBlock.replace(
+        "\n",
+        `\n${tail(text, characterLimit - codeBlock.length)}`,
+      ),
+      embeds: [],
+    };
+  }
+
+  if (contentType.startsWith("text/html")) {
+    return { content: "", embeds: [embedFromHtml(body)] };
+  }
+
+  const [frontmatter, yaml, markdown] = body.match(FRONTMATTER_REGEX) || [];
+  if (!frontmatter) {
+    // The frontmatter may still be streaming.
+    if (/^---\r?\n/.test(body)) {
+      return;
+    }
+
+    return {
+      content: tail(wrapText(body), characterLimit),
+      embeds: [],
+    };
+  }
+
+  const data = (parseYaml(yaml) || {}) as Record<string, unknown>;
+  return {
+    content: "",
+    embeds: [embedFromData(data, wrapText(markdown))],
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Whether a value is an object with any of an embed's properties. */
+function isEmbed(value: unknown): value is Embed {
+  return isObject(value) && EMBED_KEYS.some((key) => key in value);
+}
+
+/**
+ * Creates an embed from frontmatter data and a description.
+ *
+ * Besides the embed's own shape, `image`, `thumbnail`, `footer` and `author`
+ * can be strings, `color` can be a hex string, and `fields` can be an object
+ * of field names to values.
+ */
+function embedFromData(
+  data: Record<string, unknown>,
+  description: string,
+): Embed {
+  const {
+    color,
+    timestamp,
+    image,
+    thumbnail,
+    footer,
+    author,
+    fields,
+    ...rest
+  } = data;
+
+  const embed: Embed = { ...rest };
+
+  description = description.trim();
+  if (description) {
+    embed.description = description.slice(-1 * DESCRIPTION_LIMIT);
+  }
+
+  if (color !== undefined) {
+    embed.color = colorFromValue(color);
+  }
+
+  if (timestamp instanceof Date) {
+    embed.timestamp = timestamp.toISOString();
+  } else if (timestamp !== undefined) {
+    embed.timestamp = String(timestamp);
+  }
+
+  /** Expands a string to an object with that string as `key`. */
+  const expand = <T>(value: unknown, key: string) =>
+    (typeof value === "string" ? { [key]: value } : value) as T;
+
+  if (image) embed.image = expand(image, "url");
+  if (thumbnail) embed.thumbnail = expand(thumbnail, "url");
+  if (footer) embed.footer = expand(footer, "text");
+  if (author) embed.author = expand(author, "name");
+
+  if (Array.isArray(fields)) {
+    embed.fields = fields;
+  } else if (fields && typeof fields === "object") {
+    embed.fields = Object.entries(fields).map(([name, value]) => ({
+      name,
+      value: String(value),
+      inline: true,
+    }));
+  }
+
+  return embed;
+}
+
+/**
+ * Creates an embed from a HTML document.
+ *
+ * - `<title>` or the first `<h1>` is the title.
+ * - `<meta name="theme-color">` is the color.
+ * - The first `<img>` is the image.
+ * - `<dt>` and `<dd>` pairs in `<dl>` are the fields.
+ * - The rest of the body, converted to Markdown, is the description.
+ */
+function embedFromHtml(html: string): Embed {
+  const embed: Embed = {};
+
+  const [, documentTitle = ""] = html.match(/<title>([\s\S]*?)<\/title>/i) ||
+    [];
+  const [heading = "", headingText = ""] =
+    html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i) || [];
+  const title = textFromHtml(documentTitle || headingText);
+  if (title) {
+    embed.title = title;
+  }
+
+  for (const [, attributes] of html.matchAll(/<meta\b([^>]*)>/gi)) {
+    const { name, content } = attributesFromHtml(attributes);
+    if (name === "theme-color" && content) {
+      embed.color = colorFromValue(content);
+    }
+  }
+
+  const [image, imageAttributes = ""] = html.match(/<img\b([^>]*)>/i) || [];
+  const { src } = attributesFromHtml(imageAttributes);
+  if (src) {
+    embed.image = { url: src };
+  }
+
+  const fields: Embed["fields"] = [];
+  for (
+    const [, name, value] of html.matchAll(
+      /<dt\b[^>]*>([\s\S]*?)<\/dt>\s*<dd\b[^>]*>([\s\S]*?)<\/dd>/gi,
+    )
+  ) {
+    fields.push({
+      name: textFromHtml(name),
+      value: markdownFromHtml(value),
+      inline: true,
+    });
+  }
+  if (fields.length) {
+    embed.fields = fields;
+  }
+
+  let body = html
+    .replace(/<head\b[\s\S]*?<\/head>/i, "")
+    .replace(/<(script|style|dl)\b[\s\S]*?<\/\1>/gi, "");
+  // Removes the heading if it is the same as the title.
+  if (heading && textFromHtml(headingText) === title) {
+    body = body.replace(heading, "");
+  }
+  if (image) body = body.replace(image, "");
+
+  const description = markdownFromHtml(body);
+  if (description) {
+    embed.description = description.slice(-1 * DESCRIPTION_LIMIT);
+  }
+
+  return embed;
+}
+
+/**
+ * Converts basic HTML formatting to Discord's Markdown, stripping the rest.
+ */
+function markdownFromHtml(html: string): string {
+  return unescapeHtml(
+    html
+      .replace(/\s*\n\s*/g, " ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/(p|div|h\d|ul|ol|pre|blockquote)>/gi, "\n\n")
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<(b|strong)\b[^>]*>([\s\S]*?)<\/\1>/gi, "**$2**")
+      .replace(/<(i|em)\b[^>]*>([\s\S]*?)<\/\1>/gi, "*$2*")
+      .replace(/<(s|del)\b[^>]*>([\s\S]*?)<\/\1>/gi, "~~$2~~")
+      .replace(/<code\b[^>]*>([\s\S]*?)<\/code>/gi, "`$1`")
+      .replace(
+        /<a\b([^>]*)>([\s\S]*?)<\/a>/gi,
+        (_, attributes, text) => {
+          const { href } = attributesFromHtml(attributes);
+          return href ? `[${text}](${href})` : text;
+        },
+      )
+      .replace(/<[^>]*>/g, ""),
+  )
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Converts a color, i.e. `#ff0000` or `0xff0000`, to its integer value.
+ */
+function colorFromValue(color: unknown): number {
+  if (typeof color === "number") {
+    return color;
+  }
+
+  return parseInt(String(color).replace(/^(#|0x)/i, ""), 16);
+}
+
+/**
+ * Splits a multipart body into its parts, each as a `Response` with its own
+ * headers and body.
+ */
+function partsFromMultipart(body: Uint8Array, boundary: string): Response[] {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const delimiter = encoder.encode(`--${boundary}`);
+  const separator = encoder.encode("\r\n\r\n");
+  const parts: Response[] = [];
+
+  let start = indexOfNeedle(body, delimiter);
+  while (start !== -1) {
+    start += delimiter.length;
+    // The closing delimiter ends with `--`.
+    if (body[start] === 45 && body[start + 1] === 45) {
+      break;
+    }
+
+    const end = indexOfNeedle(body, delimiter, start);
+    if (end === -1) {
+      break;
+    }
+
+    // Each part has its headers, an empty line, then its body.
+    const part = body.subarray(start, end);
+    const index = indexOfNeedle(part, separator);
+    const headers = new Headers();
+    decoder.decode(part.subarray(0, Math.max(index, 0))).split("\r\n")
+      .forEach((line) => {
+        const [name, value] = line.split(/:\s*(.*)/s);
+        if (name && value !== undefined) {
+          headers.append(name, value);
+        }
+      });
+
+    // Trims the line break before the next delimiter.
+    let bodyEnd = part.length;
+    if (part[bodyEnd - 2] === 13 && part[bodyEnd - 1] === 10) {
+      bodyEnd -= 2;
+    }
+
+    const bodyStart = index === -1 ? part.length : index + separator.length;
+    parts.push(
+      new Response(part.slice(bodyStart, Math.max(bodyStart, bodyEnd)), {
+        headers,
+      }),
+    );
+    start = end;
+  }
+
+  return parts;
+}
+
+/**
+ * Formats a number of bytes, i.e. `25 MB`.
+ */
+function formatSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB"];
+  let index = 0;
+  while (bytes >= 1024 && index < units.length - 1) {
+    bytes /= 1024;
+    index++;
+  }
+  return `${Number(bytes.toFixed(1))} ${units[index]}`;
+}
+
+/**
+ * Reads the start of a HTML body, until the end of its first form, or its
+ * first chunk if it has no form, but not longer than Discord waits for a
+ * modal.
+ *
+ * @returns The HTML read so far, and the whole body to continue with.
+ */
+async function peekHtml(
+  body: ReadableStream<Uint8Array>,
+): Promise<[string, ReadableStream<Uint8Array>]> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const chunks: Uint8Array[] = [];
+  let html = "";
+  let pending: Promise<ReadableStreamReadResult<Uint8Array>> | undefined;
+
+  let timedOut = () => {};
+  const timeout = new Promise<undefined>((resolve) => {
+    timedOut = () => resolve(undefined);
+  });
+  const timerId = setTimeout(timedOut, MODAL_TIMEOUT);
+
+  try {
+    while (true) {
+      pending = reader.read();
+      const result = await Promise.race([pending, timeout]);
+      // Keeps the pending read for the rest of the body.
+      if (!result) break;
+      pending = undefined;
+      if (result.done) break;
+
+      chunks.push(result.value);
+      html += decoder.decode(result.value, { stream: true });
+      if (!/<form\b/i.test(html) || /<\/form>/i.test(html)) break;
+    }
+  } finally {
+    clearTimeout(timerId);
+  }
+
+  const rest = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk) {
+        controller.enqueue(chunk);
+        return;
+      }
+
+      const { done, value } = await (pending || reader.read());
+      pending = undefined;
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return [html, rest];
+}
+
+/**
+ * Creates a modal from the first form in a HTML document.
+ *
+ * The form's `action` is the route to submit to, and its `title` (or the
+ * document's) is the modal's title. Each `<input>` becomes a short text
+ * input, and each `<textarea>` a paragraph one, labelled by their `<label>`.
+ */
+function modalFromHtml(html: string, route: string): Modal | undefined {
+  const [, formAttributes = "", content = ""] =
+    html.match(/<form\b([^>]*)>([\s\S]*?)<\/form>/i) || [];
+  if (!content) {
+    return;
+  }
+
+  const form = attributesFromHtml(formAttributes);
+  const [, documentTitle = ""] = html.match(/<title>([\s\S]*?)<\/title>/i) ||
+    [];
+
+  // Labels either refer to an input's ID, or wrap around it.
+  const labels: Record<string, string> = {};
+  for (
+    const [, attributes, text] of content.matchAll(
+      /<label\b([^>]*)>([\s\S]*?)<\/label>/gi,
+    )
+  ) {
+    const { for: id } = attributesFromHtml(attributes);
+    const [, input = ""] = text.match(/<(?:input|textarea)\b([^>]*)>/i) || [];
+    const { name } = attributesFromHtml(input);
+    if (id || name) {
+      // Excludes the wrapped textarea's content.
+      labels[id || name] = textFromHtml(
+        text.replace(/<textarea\b[\s\S]*?<\/textarea>/gi, ""),
+      );
+    }
+  }
+
+  const components: Component[] = [];
+  for (
+    const [, textareaAttributes, text = "", inputAttributes] of content
+      .matchAll(
+        /<textarea\b([^>]*)>([\s\S]*?)<\/textarea>|<input\b([^>]*)>/gi,
+      )
+  ) {
+    const isTextarea = textareaAttributes !== undefined;
+    const field = attributesFromHtml(
+      isTextarea ? textareaAttributes : inputAttributes,
+    );
+    const { id, name, type = "text" } = field;
+    // Modals only have text inputs.
+    if (!name || ["hidden", "submit", "button", "reset"].includes(type)) {
+      continue;
+    }
+
+    const input: Component = {
+      type: 4, // Text Input
+      custom_id: name,
+      style: isTextarea ? 2 : 1, // Paragraph or Short
+      label: (labels[id] || labels[name] || field.placeholder || name)
+        .substring(0, 45),
+      placeholder: field.placeholder,
+      required: "required" in field,
+      value: isTextarea ? unescapeHtml(text) : field.value,
+    };
+    if (field.minlength) input.min_length = Number(field.minlength);
+    if (field.maxlength) input.max_length = Number(field.maxlength);
+
+    components.push({
+      type: 1, // Action Row, required for each text input.
+      components: [input],
+    });
+  }
+
+  if (!components.length) {
+    return;
+  }
+
+  const action = form.action || route;
+  return {
+    custom_id: action.replace(/^\//, "").substring(0, 100),
+    title: (form.title || textFromHtml(documentTitle) || "Form")
+      .substring(0, 45),
+    // Discord allows up to 5 text inputs in a modal.
+    components: components.slice(0, 5),
+  };
+}
+
+/**
+ * Parses the attributes of a HTML tag, i.e. `name="value" required`.
+ */
+function attributesFromHtml(html: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (
+    const [, name, ...values] of html.matchAll(
+      /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g,
+    )
+  ) {
+    const value = values.find((value) => value !== undefined) ?? "";
+    attributes[name.toLowerCase()] = unescapeHtml(value);
+  }
+  return attributes;
+}
+
+/**
+ * Strips tags from a HTML fragment.
+ */
+function textFromHtml(html: string): string {
+  return unescapeHtml(html.replace(/<[^>]*>/g, "")).trim();
+}
+
+/**
+ * Unescapes the common HTML entities.
+ */
+function unescapeHtml(html: string): string {
+  const entities: Record<string, string> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+    nbsp: " ",
+  };
+
+  return html.replace(/&(#x?[\da-f]+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith("#")) {
+      const hex = code[1].toLowerCase() === "x";
+      return String.fromCodePoint(
+        parseInt(code.substring(hex ? 2 : 1), hex ? 16 : 10),
+      );
+    }
+    return entities[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Reads Problem Details from an error response, or makes one from its body.
+ */
+async function problemFromResponse(response: Response): Promise<Problem> {
+  const { status, statusText, headers } = response;
+  const contentType = headers.get("Content-Type") || "";
+  const body = await response.text();
+  const problem: Problem = { status, title: statusText };
+
+  if (/json/.test(contentType)) {
+    try {
+      const data = JSON.parse(body);
+      if (/problem\+json/.test(contentType)) {
+        return { ...problem, ...data };
+      }
+      // i.e. `{ "error": "Invalid Request" }`
+      problem.detail = data.error || data.message || body;
+    } catch {
+      problem.detail = body;
+    }
+  } else {
+    problem.detail = body;
+  }
+
+  return problem;
+}
+
+/** Problem Details of a thrown error. */
+function problemFromError(error: unknown): Problem {
+  return {
+    status: 500,
+    title: "Internal Server Error",
+    detail: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/** Displays Problem Details as a red embed. */
+function embedFromProblem(problem: Problem): Embed {
+  const { type, title, status, detail = "" } = problem;
+  const embed: Embed = {
+    title: [status, title].filter(Boolean).join(" ") || "Error",
+    description: detail.slice(0, DESCRIPTION_LIMIT) || undefined,
+    color: 0xED4245, // Red
+  };
+  if (type && /^https?:\/\//.test(type)) {
+    embed.url = type;
+  }
+  return embed;
+}
+
+/**
+ * Checks if the user of an interaction passes a route's guard.
+ */
+function isAllowed(interaction: Interaction, guard: Guard = {}): boolean {
+  const { guild_id, member } = interaction;
+  const user = member?.user || interaction.user;
+  const { users, roles, permissions, guilds } = guard;
+
+  if (users && !users.includes(user?.id || "")) {
+    return false;
+  }
+
+  if (guilds && !guilds.includes(guild_id!)) {
+    return false;
+  }
+
+  if (roles && !roles.some((role) => member?.roles.includes(role))) {
+    return false;
+  }
+
+  if (permissions) {
+    const required = BigInt(permissions);
+    const granted = BigInt(member?.permissions || 0);
+    // Administrator has all permissions.
+    if ((granted & 8n) !== 8n && (granted & required) !== required) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Compares a value with a secret in constant time, by verifying the value
+ * against the secret's HMAC with a random key.
+ */
+async function isSameSecret(value: string, secret: string): Promise<boolean> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.generateKey(
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    encoder.encode(secret),
+  );
+  return crypto.subtle.verify("HMAC", key, signature, encoder.encode(value));
+}
+
+/**
+ * Responds to an interaction with a message only visible to its user.
+ */
+function ephemeral(content: string): Response {
+  return Response.json({
+    type: InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE,
+    data: {
+      content,
+      flags: 64, // Ephemeral
+    },
+  });
+}
+
+/** Changes to make to registered commands, by command name. */
+export interface CommandDiff {
+  created: string[];
+  updated: string[];
+  deleted: string[];
+}
+
+/**
+ * Registers commands in the guilds of `guildId`, or globally without it.
+ *
+ * Registered commands are fetched and compared first, so nothing is written
+ * when they are up to date. Otherwise, all commands are overwritten, which
+ * also deletes the stale ones.
+ *
+ * @returns The changes made in each scope.
+ */
+export async function registerCommands(
+  commands: Command[],
+  options: Options = {},
+  rest = clientFromOptions(options),
+): Promise<Record<string, CommandDiff>> {
+  const diffs: Record<string, CommandDiff> = {};
+  const headers = headersFromOptions(options);
+  if (!headers) {
+    return diffs;
+  }
+
+  for (const [scope, path] of scopesFromOptions(options)) {
+    // Localizations are only included when asked for.
+    const response = await rest.request(`${path}?with_localizations=true`, {
+      headers,
+    });
+    if (!response.ok) {
+      console.error(
+        `Failed to fetch commands in ${scope}: ${response.statusText}`,
+      );
+      continue;
+    }
+
+    const diff = diffCommands(await response.json(), commands);
+    const { created, updated, deleted } = diff;
+    if (!created.length && !updated.length && !deleted.length) {
+      console.log(`Commands in ${scope} are up to date`);
+      continue;
+    }
+
+    await rest.request(path, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify(commands),
+    }).then((response) => {
+      if (!response.ok) {
+        console.error(
+          `Failed to register commands in ${scope}: ${response.statusText}`,
+        );
+      } else {
+        console.log(`Registered commands in ${scope}`);
+        diffs[scope] = diff;
+      }
+    });
+  }
+
+  return diffs;
+}
+
+/**
+ * Fetches registered commands in the guilds of `guildId`, or the global ones
+ * without it.
+ *
+ * @returns The commands in each scope.
+ */
+export async function listCommands(
+  options: Options = {},
+  rest = clientFromOptions(options),
+): Promise<Record<string, Command[]>> {
+  const lists: Record<string, Command[]> = {};
+  const headers = headersFromOptions(options);
+  if (!headers) {
+    return lists;
+  }
+
+  for (const [scope, path] of scopesFromOptions(options)) {
+    const response = await rest.request(`${path}?with_localizations=true`, {
+      headers,
+    });
+    if (!response.ok) {
+      console.error(
+        `Failed to fetch commands in ${scope}: ${response.statusText}`,
+      );
+      continue;
+    }
+    lists[scope] = await response.json();
+  }
+
+  return lists;
+}
+
+/**
+ * Deletes all commands in the guilds of `guildId`, or the global ones without
+ * it.
+ */
+export async function purgeCommands(
+  options: Options = {},
+  rest = clientFromOptions(options),
+) {
+  const headers = headersFromOptions(options);
+  if (!headers) {
+    return;
+  }
+
+  for (const [scope, path] of scopesFromOptions(options)) {
+    const response = await rest.request(path, {
+      method: "PUT",
+      headers,
+      body: "[]",
+    });
+    if (!response.ok) {
+      console.error(
+        `Failed to delete commands in ${scope}: ${response.statusText}`,
+      );
+    } else {
+      console.log(`Deleted commands in ${scope}`);
+    }
+  }
+}
+
+/**
+ * Compares registered commands with the ones from routes.
+ *
+ * The fields Discord adds, such as `id` and `version`, are ignored, and a
+ * missing field is the same as its default value on Discord.
+ */
+export function diffCommands(
+  existing: Command[],
+  commands: Command[],
+): CommandDiff {
+  const diff: CommandDiff = { created: [], updated: [], deleted: [] };
+
+  for (const command of commands) {
+    const registered = existing.find((registered) =>
+      isSameCommand(registered, command)
+    );
+    if (!registered) {
+      diff.created.push(command.name);
+    } else if (!isSameValue(normalize(command), normalize(registered))) {
+      diff.updated.push(command.name);
+    }
+  }
+
+  for (const registered of existing) {
+    if (!commands.some((command) => isSameCommand(registered, command))) {
+      diff.deleted.push(registered.name);
+    }
+  }
+
+  return diff;
+}
+
+/** Commands of different types can have the same name. */
+function isSameCommand(a: Command, b: Command): boolean {
+  return a.name === b.name &&
+    (a.type || CommandType.CHAT_INPUT) === (b.type || CommandType.CHAT_INPUT);
+}
+
+/**
+ * Removes the fields Discord adds to a command, and the ones with their
+ * default values, so that commands can be compared as is.
+ */
+function normalize(command: Command): Record<string, unknown> {
+  const { type = CommandType.CHAT_INPUT, ...fields } = command;
+  const record: Record<string, unknown> = { ...fields };
+  if (type !== CommandType.CHAT_INPUT) {
+    record.type = type;
+  }
+  COMMAND_FIELDS_IGNORED.forEach((key) => delete record[key]);
+  return withoutDefaults(record) as Record<string, unknown>;
+}
+
+/**
+ * Removes fields with their default values from a command or its options.
+ *
+ * `null`, empty objects and the values in `FIELD_DEFAULTS` are the same as
+ * missing, since Discord omits or fills them in.
+ */
+function withoutDefaults(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutDefaults);
+  }
+
+  if (!value || typeof value !== "object") {
+    return value;
+  }
 
-      return Response.json({
-        // Type 5 responds with an ACK retaining the user's input at the top.
-        type: InteractionResponseType.ACK_WITH_SOURCE,
-        data: message,
-      });
+  const record: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    const normalized = withoutDefaults(field);
+    if (
+      normalized == null ||
+      isSameValue(normalized, {}) ||
+      (key in FIELD_DEFAULTS && isSameValue(normalized, FIELD_DEFAULTS[key]))
+    ) {
+      continue;
     }
+    record[key] = normalized;
+  }
+  return record;
+}
 
-    // We will return a bad request error as a valid Discord request
-    // shouldn't reach here.
-    return Response.json({ error: "bad request" }, { status: 400 });
+/** Compares two JSON values deeply, with the same fields in any order. */
+function isSameValue(value: unknown, other: unknown): boolean {
+  if (value === other) {
+    return true;
+  }
+
+  if (Array.isArray(value) || Array.isArray(other)) {
+    return Array.isArray(value) && Array.isArray(other) &&
+      value.length === other.length &&
+      value.every((item, index) => isSameValue(item, other[index]));
+  }
+
+  if (
+    !value || !other || typeof value !== "object" || typeof other !== "object"
+  ) {
+    return false;
+  }
+
+  const record = other as Record<string, unknown>;
+  const keys = Object.keys(value);
+  return keys.length === Object.keys(record).length &&
+    Object.entries(value).every(([key, value]) =>
+      key in record && isSameValue(value, record[key])
+    );
+}
+
+/** Creates a client for Discord's API from the router's options. */
+function clientFromOptions(options: Options): RestClient {
+  const { apiBaseUrl, apiVersion, fetch } = options;
+  return new RestClient({ baseUrl: apiBaseUrl, version: apiVersion, fetch });
+}
+
+/** Headers to authorize requests with the bot token, if any. */
+function headersFromOptions(
+  options: Options,
+): Record<string, string> | undefined {
+  const {
+    authToken = Deno.env.get("DISCORD_BOT_TOKEN") || "",
+    tokenPrefix = "Bot",
+  } = options;
+
+  if (!authToken) {
+    return;
+  }
+
+  return {
+    "Authorization": `${tokenPrefix} ${authToken}`,
+    "Content-Type": "application/json",
   };
 }
 
-export async function registerCommands(
-  commands: PartialApplicationCommand[],
-  options: Options = {},
-) {
+/**
+ * Paths to the commands of each guild in `guildId`, or the global ones
+ * without it, by their scope's name.
+ */
+function scopesFromOptions(options: Options): [string, string][] {
   const {
     applicationId = Deno.env.get("DISCORD_APPLICATION_ID") || "",
-    authToken = Deno.env.get("DISCORD_BOT_TOKEN") || "",
-    tokenPrefix,
     guildId = Deno.env.get("DISCORD_GUILD_ID"),
   } = options;
 
-  if (!guildId || !authToken) {
-    return;
+  if (!guildId) {
+    return [["global scope", `/applications/${applicationId}/commands`]];
   }
 
-  const guildIds = guildId.split(",");
+  return guildId.split(",").map((guildId) => [
+    `guild ${guildId}`,
+    `/applications/${applicationId}/guilds/${guildId}/commands`,
+  ]);
+}
 
-  for await (const guildId of guildIds) {
-    const endpoint = guildId
-      ? `applications/${applicationId}/guilds/${guildId}/commands`
-      : `applications/${applicationId}/commands`;
-    const headers = {
-      "Authorization": `${(tokenPrefix || "Bot")} ${authToken}`,
-      "Content-Type": "application/json",
-    };
+/**
+ * Parses a route into its path without type annotations and its options.
+ *
+ * Params and search params can be annotated with a type, such as
+ * `/roll/:sides<integer(2..100)>?private=<boolean>`. Search params can have a
+ * default value after the annotation, i.e. `?tick=<integer(100..)>1000`, or
+ * an enumeration of choices, i.e. `?unit=kb|mb|gb`.
+ */
+function parseRoute(
+  route: string,
+  metadata: Record<string, OptionMetadata> = {},
+): [string, CommandOption[]] | undefined {
+  const [pathname, search = ""] = route.split(/\?(.*)/s);
+  // Required options must be listed before optional options.
+  const options: CommandOption[] = [];
+  let valid = true;
 
-    await fetch(`${DISCORD_BASE_URL}/${endpoint}`, {
-      method: "PUT",
-      headers,
-      body: JSON.stringify(commands),
-    }).then((response) => {
-      if (!response.ok) {
-        console.error(
-          `Failed to register commands in guild ${guildId}: ${response.statusText}`,
-        );
-      } else {
-        console.log(`Registered commands in guild ${guildId}`);
+  // Params are required options.
+  const segments = pathname.split("/").map((segment) => {
+    if (!segment.startsWith(":")) {
+      return segment;
+    }
+
+    const [, name, annotation = ""] = segment.match(/^:([^<]*)(.*)$/)!;
+    const option = optionFromAnnotation(name, annotation, true, metadata[name]);
+    if (option) {
+      options.push(option);
+    } else {
+      valid = false;
+    }
+    return `:${name}`;
+  });
+
+  // Search params are optional options.
+  const searchParams = search.split("&").filter(Boolean).map((param) => {
+    const [name, value = ""] = param.split(/=(.*)/s);
+    const [annotation = ""] = value.match(TYPE_REGEX) || [];
+    let defaultValue = value.substring(annotation.length);
+    const option = optionFromAnnotation(
+      name,
+      annotation,
+      false,
+      metadata[name],
+    );
+    if (!option) {
+      valid = false;
+      return param;
+    }
+
+    // Enumerations become choices, with the first one as default value.
+    // Options with autocomplete cannot have choices though.
+    if (defaultValue.includes("|")) {
+      const values = defaultValue.split("|");
+      const numeric = option.type === OptionType.INTEGER ||
+        option.type === OptionType.NUMBER;
+      if (!option.autocomplete) {
+        option.choices = values.map((value) => ({
+          name: value,
+          value: numeric ? Number(value) : value,
+        }));
       }
+      defaultValue = values[0];
+    }
+
+    // Discord rejects descriptions longer than 100 characters.
+    const suffix = ` (default: ${defaultValue})`;
+    if (defaultValue && option.description.length + suffix.length <= 100) {
+      option.description += suffix;
+    }
+
+    options.push(option);
+    return `${name}=${defaultValue}`;
+  });
+
+  // Skips the route if any of its options is invalid.
+  if (!valid) {
+    return;
+  }
+
+  let path = segments.join("/");
+  if (searchParams.length) {
+    path += `?${searchParams.join("&")}`;
+  }
+
+  return [path, options];
+}
+
+/**
+ * Creates a command option from a type annotation, i.e. `<integer(2..100)>`.
+ *
+ * Without annotation, the option is a string.
+ */
+function optionFromAnnotation(
+  name: string,
+  annotation: string,
+  required: boolean,
+  metadata: OptionMetadata = {},
+): CommandOption | undefined {
+  const [, typeName = "string", args] = annotation.match(TYPE_REGEX) || [];
+  const type = OPTION_TYPES[typeName];
+
+  if (!type) {
+    console.error(`Invalid option type: ${typeName}`);
+    return;
+  }
+
+  const option: CommandOption = {
+    type,
+    name,
+    name_localizations: metadata.name_localizations,
+    description: metadata.description || name,
+    description_localizations: metadata.description_localizations,
+    required,
+    autocomplete: metadata.autocomplete ? true : undefined,
+  };
+
+  if (args === undefined) {
+    return option;
+  }
+
+  if (type === OptionType.CHANNEL) {
+    option.channel_types = args.split(",").map((channelType) => {
+      channelType = channelType.trim();
+      return CHANNEL_TYPES[channelType] ?? Number(channelType);
     });
+    return option;
+  }
+
+  // Ranges are inclusive, and either end can be omitted, i.e. `(2..)`.
+  const [min, max] = args.split("..").map((value) => value.trim());
+  if (type === OptionType.STRING) {
+    if (min) option.min_length = Number(min);
+    if (max) option.max_length = Number(max);
+  } else {
+    if (min) option.min_value = Number(min);
+    if (max) option.max_value = Number(max);
+  }
+
+  return option;
+}
+
+/**
+ * Checks provided values against their options.
+ *
+ * Returns an error message for the first invalid value, if any.
+ */
+function validateOptions(
+  options: CommandOption[],
+  values: Record<string, string>,
+): string | undefined {
+  for (const option of options) {
+    const { type, name } = option;
+    const value = values[name];
+
+    if (value === undefined) {
+      if (option.required) {
+        return `Missing option: ${name}`;
+      }
+      continue;
+    }
+
+    let valid = true;
+    switch (type) {
+      case OptionType.INTEGER:
+        valid = /^-?\d+$/.test(value);
+        break;
+      case OptionType.NUMBER:
+        valid = value.trim() !== "" && Number.isFinite(Number(value));
+        break;
+      case OptionType.BOOLEAN:
+        valid = value === "true" || value === "false";
+        break;
+      case OptionType.USER:
+      case OptionType.CHANNEL:
+      case OptionType.ROLE:
+      case OptionType.MENTIONABLE:
+        // Snowflake IDs.
+        valid = /^\d+$/.test(value);
+        break;
+    }
+
+    if (!valid) {
+      return `Invalid ${OptionType[type].toLowerCase()} option: ${name}`;
+    }
+
+    const { choices } = option;
+    if (choices && !choices.some((choice) => String(choice.value) === value)) {
+      return `Invalid choice for option: ${name}`;
+    }
+
+    const { min_value, max_value, min_length, max_length } = option;
+    const number = Number(value);
+    if (
+      (min_value !== undefined && number < min_value) ||
+      (max_value !== undefined && number > max_value) ||
+      (min_length !== undefined && value.length < min_length) ||
+      (max_length !== undefined && value.length > max_length)
+    ) {
+      return `Option out of range: ${name}`;
+    }
   }
 }
 
 /**
- * Creates a partial application command from route URL.
+ * Creates a partial application command from route URL and its options.
+ *
+ * Leading path segments are the command name, and optionally the subcommand
+ * group and subcommand names, i.e. `/admin/roles/add/:role`.
+ *
+ * Descriptions of the command and subcommand group of nested routes are left
+ * empty if not provided, so other routes can provide them.
  */
 function commandFromUri(
   uri: string | URL,
-  handler: Handler,
-): PartialApplicationCommand | undefined {
-  /** @TODO: Uses decorators for description and option type? */
-  const { pathname, searchParams } = new URL(
-    uri.toString(),
-    "http://localhost",
-  );
-  /** @FIXME: Command name is not always the only one. */
-  const [, name, ...params] = pathname.split("/");
+  options: CommandOption[],
+  route: Route,
+): Command | undefined {
+  const { pathname } = new URL(uri.toString(), "http://localhost");
+  const [names] = segmentsFromPath(pathname);
+
+  if (!names.length || names.length > 3) {
+    console.error(`Invalid command path: ${pathname}`);
+    return;
+  }
 
-  if (!NAME_REGEX.test(name)) {
-    console.error(`Invalid command name: ${name}`);
+  const invalidName = names.find((name) => !NAME_REGEX.test(name));
+  if (invalidName !== undefined) {
+    console.error(`Invalid command name: ${invalidName}`);
     return;
   }
 
-  // Required options must be listed before optional options.
-  const options: ApplicationCommandOption[] = [];
+  const [name, ...subcommands] = names;
+  // Handlers can be described with a `displayName`, as before metadata.
+  const { displayName } = route.handler as { displayName?: string };
+  const {
+    description = displayName || names[names.length - 1],
+    name_localizations,
+    description_localizations,
+    command: commandMetadata = {},
+    group: groupMetadata = {},
+    guard,
+    dm_permission,
+    nsfw,
+  } = route;
+
+  const command: Command = {
+    name,
+    name_localizations,
+    description,
+    description_localizations,
+    options,
+    default_member_permissions: route.default_member_permissions,
+    dm_permission,
+    nsfw,
+  };
 
-  // Params are required options.
-  params.forEach((param) => {
-    const name = param.substring(1);
-    options.push({
-      type: ApplicationCommandOptionType.STRING,
-      name,
-      description: name, /** @FIXME: Actual description */
-      required: true,
-      choices: undefined,
-      // channel_types: undefined,
-      options: undefined,
-      // min_value: undefined,
-      // max_value: undefined,
-      // autocomplete: undefined,
-    });
-  });
+  if (!subcommands.length) {
+    // Hides the command from members who can't pass its guard.
+    command.default_member_permissions ??= guard?.permissions;
+    return command;
+  }
 
-  // Search params are optional options.
-  searchParams.forEach((_defaultValue, name) => {
-    options.push({
-      type: ApplicationCommandOptionType.STRING,
-      name,
-      description: name, /** @FIXME: Actual description */
-      required: false,
-      choices: undefined,
-      // channel_types: undefined,
-      options: undefined,
-      // min_value: undefined,
-      // max_value: undefined,
-      // autocomplete: undefined,
-    });
-  });
+  // Wraps the options in a subcommand, then in a subcommand group if any.
+  let option: CommandOption = {
+    type: OptionType.SUB_COMMAND,
+    name: subcommands.pop()!,
+    name_localizations,
+    description,
+    description_localizations,
+    options,
+  };
+
+  if (subcommands.length) {
+    const [group] = subcommands;
+    option = {
+      type: OptionType.SUB_COMMAND_GROUP,
+      name: group,
+      name_localizations: groupMetadata.name_localizations,
+      description: groupMetadata.description || "",
+      description_localizations: groupMetadata.description_localizations,
+      options: [option],
+    };
+  }
 
-  const command: PartialApplicationCommand = {
+  return {
+    ...command,
+    name_localizations: commandMetadata.name_localizations,
+    description: commandMetadata.description || "",
+    description_localizations: commandMetadata.description_localizations,
+    options: [option],
+  };
+}
+
+/**
+ * Creates a context menu command from a route, named after its `name` or its
+ * first path segment.
+ */
+function commandFromContext(uri: URL, route: Route): Command | undefined {
+  const [[segment = ""]] = segmentsFromPath(uri.pathname);
+  const {
+    context,
+    name = segment,
+    name_localizations,
+    default_member_permissions,
+    dm_permission,
+    nsfw,
+    guard,
+  } = route;
+
+  if (!name || name.length > 32) {
+    console.error(`Invalid command name: ${name}`);
+    return;
+  }
+
+  return {
+    type: context === "user" ? CommandType.USER : CommandType.MESSAGE,
     name,
-    description: handler.displayName || name,
-    options,
+    name_localizations,
+    description: "",
+    default_member_permissions: default_member_permissions ??
+      guard?.permissions,
+    dm_permission,
+    nsfw,
   };
+}
+
+/**
+ * Splits a route path into its command names and its params.
+ *
+ * Segments before the first param are names of the command, subcommand group
+ * and subcommand, while the rest are params, i.e. `:name`.
+ */
+function segmentsFromPath(pathname: string): [string[], string[]] {
+  const segments = pathname.split("/").filter(Boolean);
+  const index = segments.findIndex((segment) => segment.startsWith(":"));
+  if (index === -1) {
+    return [segments, []];
+  }
+  return [segments.slice(0, index), segments.slice(index)];
+}
+
+/**
+ * Creates an URL pattern to match web requests against a route.
+ *
+ * Search params are optional and can be in any order, so they are checked
+ * separately with `validateOptions`.
+ */
+function patternFromUri(uri: URL): URLPattern {
+  return new URLPattern({
+    pathname: uri.pathname,
+    search: "*",
+  });
+}
+
+function isSubcommand({ type }: { type: OptionType }) {
+  return type === OptionType.SUB_COMMAND ||
+    type === OptionType.SUB_COMMAND_GROUP;
+}
+
+/**
+ * Merges the subcommand (or subcommand group) of `source` into `target`.
+ *
+ * Returns `false` if they conflict, i.e. one of them is not a command with
+ * subcommands, or both have the same subcommand.
+ */
+function mergeCommand(
+  target: Command | CommandOption,
+  source: Command | CommandOption,
+): boolean {
+  const [option] = source.options || [];
+  const options = target.options || [];
+
+  if (!option || !isSubcommand(option)) {
+    return false;
+  }
+
+  if (!options.length || !options.every(isSubcommand)) {
+    return false;
+  }
+
+  const existing = options.find(({ name }) => name === option.name);
+  if (!existing) {
+    options.push(option);
+  } else if (
+    // Only subcommand groups can share a name, with different subcommands.
+    existing.type !== OptionType.SUB_COMMAND_GROUP ||
+    option.type !== OptionType.SUB_COMMAND_GROUP ||
+    !mergeCommand(existing, option)
+  ) {
+    return false;
+  }
 
-  return command;
+  // Any of the nested routes can provide metadata for their parent.
+  for (const [key, value] of Object.entries(source)) {
+    if (key !== "options" && value !== undefined && value !== "") {
+      Object.assign(target, { [key]: value });
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Fills empty descriptions of a command and its subcommands with their names.
+ */
+function describe(command: Command | CommandOption) {
+  if (!command.description) {
+    command.description = command.name;
+  }
+  command.options?.forEach(describe);
+}
+
+/**
+ * Walks down the subcommand group and subcommand of an interaction's options.
+ *
+ * Returns the full command name, i.e. `admin roles add`, and the options of
+ * the innermost subcommand.
+ */
+function resolveOptions(
+  data: InteractionData,
+): [string, InteractionDataOption[]] {
+  const names = [data.name];
+  let options = data.options || [];
+
+  while (options.length === 1 && isSubcommand(options[0])) {
+    const [{ name, options: subOptions = [] }] = options;
+    names.push(name);
+    options = subOptions;
+  }
+
+  return [names.join(" "), options];
 }
 
 /** Converts a hexadecimal string to Uint8Array. */
@@ -561,6 +3221,44 @@ function hexToUint8Array(hex: string) {
   return new Uint8Array(hex.match(/.{1,2}/g)!.map((val) => parseInt(val, 16)));
 }
 
+/**
+ * Takes the first lines of a terminal that fit in a page of at most `limit`
+ * characters, after the fence of a code block continued from the previous
+ * page.
+ *
+ * Only lines above the cursor are taken, since the others may still be
+ * changed by `\r` or `\b`, and a line longer than a page is cut. A code block
+ * split across pages is closed, and its fence is returned to reopen it.
+ *
+ * @returns The page, the number of lines in it, and the fence to reopen.
+ */
+function pageFromTerminal(
+  terminal: Terminal,
+  limit: number,
+  opening: string,
+): [string, number, string] {
+  const fenceClose = "\n```";
+  // Leaves room to close a code block.
+  const max = limit - fenceClose.length;
+  const lines = terminal.lines();
+
+  let page = opening;
+  let count = 0;
+  do {
+    page += lines[count++];
+  } while (
+    count < terminal.row && page.length + lines[count].length <= max
+  );
+  page = page.slice(0, max);
+
+  const fences = page.match(/^```.*$/gm) || [];
+  if (fences.length % 2) {
+    const fence = fences[fences.length - 1];
+    return [page.replace(/\r?\n$/, "") + fenceClose, count, `${fence}\n`];
+  }
+  return [page, count, ""];
+}
+
 /**
  * A TransformStream that accumulates chunks and enqueues them at a rate.
  */
@@ -578,7 +3276,11 @@ class RateLimitStream extends TransformStream {
 
         if (!timeout) {
           timeout = setTimeout(() => {
-            controller.enqueue(new Uint8Array(buffer));
+            try {
+              controller.enqueue(new Uint8Array(buffer));
+            } catch {
+              // The stream was cancelled.
+            }
             buffer = new Uint8Array(0);
             timeout = null;
           }, rateLimit);
@@ -601,36 +3303,306 @@ class RateLimitStream extends TransformStream {
 }
 
 /**
- * Wraps text containing line feed and carriage return.
+ * Wraps text containing control characters and ANSI escape sequences.
+ *
+ * - `\b`: deletes the previous character.
+ * - `\r\n` or `\n`: moves cursor to a new line.
+ * - `\r`: deletes current line.
+ * - `\f`: clears the text.
+ * - `\t`: moves to the next multiple of 8 columns.
+ *
+ * SGR colors are kept, and cursor movements and erasing are applied.
+ *
+ * For streamed text, a `Terminal` is kept instead, so that the cursor stays
+ * where it was between chunks.
  */
 function wrapText(text: string) {
-  let result = "";
-  let currentLine = "";
-
-  // Loop through each character in the input string
-  for (let i = 0; i < text.length; i++) {
-    const char = text[i];
-
-    // If we encounter a "\b", remove the last character from the current line
-    if (char === "\b") {
-      currentLine = currentLine.slice(0, -1);
-    } // If we encounter a "\r\n", add the current line to the result and start a new line
-    else if (char === "\r" && text[i + 1] === "\n") {
-      result += currentLine + "\r\n";
-      currentLine = "";
-      i++; // skip over the "\n" character
-    } // If we encounter a "\r", clears the current line
-    else if (char === "\r") {
-      currentLine = "";
-    } // If we encounter a form feed "\f", clears the result
-    else if (char === "\f") {
-      result = "";
-      currentLine = "";
-    } // For any other character, add it to the current line
-    else {
-      currentLine += char;
-    }
-  }
-
-  return result + currentLine;
+  return new Terminal().write(text).toString();
+}
+
+/**
+ * Keeps the end of a text within a limit, leaving room for an ANSI code block.
+ *
+ * Text with colors is cut at a line break, since each line has its own
+ * escape sequences.
+ */
+function tail(text: string, characterLimit: number): string {
+  const limit = limitFor(text, characterLimit);
+  if (text.length <= limit) {
+    return text;
+  }
+
+  const rest = text.slice(-1 * limit);
+  if (!SGR_REGEX.test(text)) {
+    return rest;
+  }
+
+  const lineBreak = rest.indexOf("\n");
+  if (lineBreak >= 0) {
+    return rest.slice(lineBreak + 1);
+  }
+
+  // Drops the end of an escape sequence the cut fell inside of.
+  const cut = text.length - limit;
+  const start = text.lastIndexOf("\x1b", cut - 1);
+  const [sequence = ""] = start >= 0
+    ? text.slice(start).match(ESCAPE_REGEX) || []
+    : [];
+  return rest.slice(Math.max(0, start + sequence.length - cut));
+}
+
+/** Character limit of a text, without the ANSI code block it may need. */
+function limitFor(text: string, characterLimit: number): number {
+  return ansiBlock(text) === text
+    ? characterLimit
+    : characterLimit - ANSI_BLOCK.length;
+}
+
+/**
+ * Displays text with colors in an ANSI code block, since Discord only
+ * supports them in one, unless the text has its own code blocks.
+ */
+function ansiBlock(text: string): string {
+  if (!SGR_REGEX.test(text) || text.includes("```")) {
+    return text;
+  }
+  return ANSI_BLOCK.replace("\n", `\n${text}`);
+}
+
+/** A character on the terminal, with its SGR params, i.e. `1;31`. */
+interface Cell {
+  char: string;
+  style: string;
+}
+
+/**
+ * A minimal terminal emulator for streamed text.
+ */
+class Terminal {
+  #lines: Cell[][] = [[]];
+  /** Line break after each line, either `\r\n` or `\n` as written. */
+  #breaks: string[] = [];
+  #row = 0;
+  #col = 0;
+  #pen = { bold: false, underline: false, foreground: 0, background: 0 };
+  /** Unfinished escape sequence at the end of the text so far. */
+  #pending = "";
+
+  write(text: string): this {
+    text = this.#pending + text;
+    this.#pending = "";
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (char === "\x1b") {
+        const rest = text.slice(i);
+        const [sequence, params, command] = rest.match(ESCAPE_REGEX) || [];
+        if (sequence) {
+          if (command) this.#control(params, command);
+          i += sequence.length - 1;
+        } else if (PARTIAL_ESCAPE_REGEX.test(rest)) {
+          // Waits for the rest of the sequence in the next text.
+          this.#pending = rest;
+          break;
+        }
+      } else if (char === "\b") {
+        if (this.#col > 0) {
+          this.#col--;
+          this.#line.splice(this.#col, 1);
+        }
+      } else if (char === "\r" && text[i + 1] === "\n") {
+        this.#newLine("\r\n");
+        i++; // skip over the "\n" character
+      } else if (char === "\r") {
+        this.#lines[this.#row] = [];
+        this.#col = 0;
+      } else if (char === "\n") {
+        this.#newLine("\n");
+      } else if (char === "\f") {
+        this.#clear();
+      } else if (char === "\t") {
+        const stop = (Math.floor(this.#col / 8) + 1) * 8;
+        while (this.#col < stop) this.#put(" ");
+      } else {
+        this.#put(char);
+      }
+    }
+
+    return this;
+  }
+
+  /** Renders the lines with their colors. */
+  toString(): string {
+    return this.lines().join("");
+  }
+
+  /**
+   * Renders each line with its own escape sequences, and its line break
+   * except the last one.
+   */
+  lines(): string[] {
+    return this.#lines.map((cells, index) => {
+      let line = "";
+      let style = "";
+      for (const cell of cells) {
+        if (cell.style !== style) {
+          style = cell.style;
+          line += `\x1b[${style || 0}m`;
+        }
+        line += cell.char;
+      }
+
+      if (index < this.#lines.length - 1) {
+        line += (style ? "\x1b[0m" : "") + this.#breaks[index];
+      }
+      return line;
+    });
+  }
+
+  /** Line of the cursor. */
+  get row(): number {
+    return this.#row;
+  }
+
+  /** Removes the first lines, i.e. once they are sent in a full message. */
+  shift(count: number): this {
+    count = Math.max(0, Math.min(count, this.#row));
+    this.#lines.splice(0, count);
+    this.#breaks.splice(0, count);
+    this.#row -= count;
+    return this;
+  }
+
+  /**
+   * Removes the lines above the last ones that fit in a limit, since they are
+   * no longer displayed.
+   */
+  scroll(limit: number): this {
+    const lines = this.lines();
+    let length = 0;
+    let count = lines.length;
+    while (count > 0 && length + lines[count - 1].length <= limit) {
+      length += lines[--count].length;
+    }
+    // Keeps the line that is partially displayed.
+    return this.shift(count - 1);
+  }
+
+  get #line(): Cell[] {
+    return this.#lines[this.#row];
+  }
+
+  #put(char: string) {
+    const line = this.#line;
+    while (line.length < this.#col) {
+      line.push({ char: " ", style: "" });
+    }
+    line[this.#col++] = { char, style: this.#style() };
+  }
+
+  #newLine(lineBreak: string) {
+    this.#breaks[this.#row] = lineBreak;
+    this.#moveTo(this.#row + 1, 0);
+  }
+
+  #moveTo(row: number, col: number) {
+    this.#row = Math.max(row, 0);
+    this.#col = Math.max(col, 0);
+    while (this.#lines.length <= this.#row) {
+      this.#breaks[this.#lines.length - 1] ??= "\n";
+      this.#lines.push([]);
+    }
+  }
+
+  #clear() {
+    this.#lines = [[]];
+    this.#breaks = [];
+    this.#row = 0;
+    this.#col = 0;
+  }
+
+  /** Handles a control sequence, i.e. `\x1b[2A` to move up 2 lines. */
+  #control(params: string, command: string) {
+    const values = params.split(";").map(Number);
+    const [n = 0] = values;
+    const count = n || 1;
+
+    switch (command) {
+      case "m":
+        return this.#graphics(values);
+      case "A":
+        return this.#moveTo(this.#row - count, this.#col);
+      case "B":
+        return this.#moveTo(this.#row + count, this.#col);
+      case "C":
+        return this.#moveTo(this.#row, this.#col + count);
+      case "D":
+        return this.#moveTo(this.#row, this.#col - count);
+      case "E":
+        return this.#moveTo(this.#row + count, 0);
+      case "F":
+        return this.#moveTo(this.#row - count, 0);
+      case "G":
+        return this.#moveTo(this.#row, count - 1);
+      case "H":
+      case "f":
+        return this.#moveTo(count - 1, (values[1] || 1) - 1);
+      case "K": {
+        // Erases to the end of the line, to its start, or all of it.
+        const line = this.#line;
+        if (n === 0) line.length = Math.min(line.length, this.#col);
+        if (n === 1) {
+          line.fill({ char: " ", style: "" }, 0, this.#col + 1);
+        }
+        if (n === 2) this.#lines[this.#row] = [];
+        return;
+      }
+      case "J":
+        // Erases below the cursor, or the whole screen.
+        if (n === 0) {
+          this.#line.length = Math.min(this.#line.length, this.#col);
+          this.#lines.length = this.#row + 1;
+        }
+        if (n >= 2) this.#clear();
+        return;
+    }
+  }
+
+  /** Sets colors from SGR params, which Discord supports the basic ones. */
+  #graphics(values: number[]) {
+    const pen = this.#pen;
+
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      if (value === 0) {
+        Object.assign(pen, {
+          bold: false,
+          underline: false,
+          foreground: 0,
+          background: 0,
+        });
+      } else if (value === 1) pen.bold = true;
+      else if (value === 22) pen.bold = false;
+      else if (value === 4) pen.underline = true;
+      else if (value === 24) pen.underline = false;
+      else if (value >= 30 && value <= 37) pen.foreground = value;
+      else if (value >= 90 && value <= 97) pen.foreground = value - 60;
+      else if (value === 39) pen.foreground = 0;
+      else if (value >= 40 && value <= 47) pen.background = value;
+      else if (value >= 100 && value <= 107) pen.background = value - 60;
+      else if (value === 49) pen.background = 0;
+      // Skips 256 and true colors, i.e. `38;5;n` and `38;2;r;g;b`.
+      else if (value === 38 || value === 48) {
+        i += values[i + 1] === 5 ? 2 : 4;
+      }
+    }
+  }
+
+  #style(): string {
+    const { bold, underline, foreground, background } = this.#pen;
+    return [bold && 1, underline && 4, foreground, background]
+      .filter(Boolean)
+      .join(";");
+  }
 }
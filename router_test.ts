@@ -0,0 +1,611 @@
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.177.0/testing/asserts.ts";
+import type { ConnInfo } from "./deps.ts";
+import {
+  commandsFromRoutes,
+  InteractionResponseType,
+  registerCommands,
+  RestClient,
+  router,
+} from "./mod.ts";
+import type { Handler, Middleware, Route } from "./mod.ts";
+import { FakeDiscord, InteractionClient } from "./testing.ts";
+
+const connInfo: ConnInfo = {
+  localAddr: { transport: "tcp", hostname: "127.0.0.1", port: 8000 },
+  remoteAddr: { transport: "tcp", hostname: "127.0.0.1", port: 50000 },
+};
+
+/** Creates a router with a test client and a fake Discord API. */
+async function setup(
+  routes: Record<string, Handler | Route>,
+  options: Parameters<typeof router>[1] = {},
+) {
+  const client = await InteractionClient.create();
+  const discord = new FakeDiscord();
+  const handler = router(routes, {
+    publicKey: client.publicKey,
+    apiBaseUrl: discord.baseUrl,
+    fetch: discord.fetch,
+    serveOnly: true,
+    rateLimit: 10,
+    ...options,
+  });
+  return { client, discord, handler };
+}
+
+/** Waits for the router to send updates in the background. */
+async function until(check: () => boolean, timeout = 2000) {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    assert(Date.now() < deadline, "Timed out waiting for updates");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  // Lets the stream finish after its last update.
+  await new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+/** Content of the last state of a message. */
+function lastContent(discord: FakeDiscord, id: string): unknown {
+  return discord.history(id).at(-1)?.content;
+}
+
+/** Creates a body that enqueues each chunk in its own rate limit window. */
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async pull(controller) {
+      const chunk = chunks.shift();
+      if (chunk === undefined) {
+        controller.close();
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      controller.enqueue(encoder.encode(chunk));
+    },
+  });
+}
+
+Deno.test("responds to a signed command and updates the message", async () => {
+  const { client, discord, handler } = await setup({
+    "/hello/:name": (_request, _connInfo, params) =>
+      new Response(`Hello ${params.name}`),
+  });
+
+  const request = await client.command("hello", { name: "Sam" });
+  const response = await handler(request, connInfo);
+  const { type } = await response.json();
+  assertEquals(type, InteractionResponseType.ACK_WITH_SOURCE);
+
+  await until(() => lastContent(discord, request.token) === "Hello Sam");
+  assertEquals(discord.requests[0].method, "PATCH");
+});
+
+Deno.test("rejects interactions with an invalid signature", async () => {
+  const { handler } = await setup({
+    "/hello": () => new Response("Hello"),
+  });
+  const other = await InteractionClient.create();
+
+  const response = await handler(await other.command("hello"), connInfo);
+  assertEquals(response.status, 401);
+});
+
+Deno.test("answers pings", async () => {
+  const { client, handler } = await setup({});
+
+  const response = await handler(await client.ping(), connInfo);
+  assertEquals(await response.json(), { type: InteractionResponseType.PONG });
+});
+
+Deno.test("passes the interaction context in headers", async () => {
+  const { client, discord, handler } = await setup({
+    "/whoami": (request) =>
+      new Response(
+        [
+          request.headers.get("X-Discord-User-Id"),
+          request.headers.get("X-Discord-Guild-Id"),
+          request.headers.get("X-Discord-Channel-Id"),
+        ].join(" "),
+      ),
+  });
+
+  const request = await client.command("whoami");
+  await handler(request, connInfo);
+  await until(() => lastContent(discord, request.token) === "1 1 1");
+});
+
+Deno.test("keeps the cursor between streamed chunks", async () => {
+  const { client, discord, handler } = await setup({
+    "/progress": () =>
+      new Response(
+        streamOf([
+          "a 10%\nb 10%\nc 10%\n",
+          "\x1b[3A",
+          "a 50%\n",
+          "b 60%\n",
+          "c 70%\n",
+        ]),
+      ),
+  });
+
+  const request = await client.command("progress");
+  await handler(request, connInfo);
+  await until(() =>
+    lastContent(discord, request.token) === "a 50%\nb 60%\nc 70%\n"
+  );
+});
+
+Deno.test("continues long output in follow-up messages", async () => {
+  const lines = Array.from({ length: 60 }, (_, i) => `line ${i}\n`);
+  const { client, discord, handler } = await setup({
+    "/log": {
+      handler: () =>
+        new Response(streamOf(["```\n", "x".repeat(1900) + "\n", ...lines])),
+      overflow: "followup",
+    },
+  });
+
+  const request = await client.command("log");
+  await handler(request, connInfo);
+  await until(() =>
+    discord.requests.some(({ body }) =>
+      String(body?.content).endsWith("line 59\n")
+    )
+  );
+
+  // The full message is closed, and the code block reopens in the next one.
+  const original = String(lastContent(discord, request.token));
+  assert(original.startsWith("```\nxxx"));
+  assertStringIncludes(original, "line 0\n");
+  assert(original.endsWith("\n```"));
+  const followup = discord.requests.find(({ method }) => method === "POST");
+  assert(String(followup?.body?.content).startsWith("```\nline "));
+});
+
+Deno.test("renders error statuses as an error embed", async () => {
+  const { client, handler } = await setup({
+    "/fail": () => new Response("Not here", { status: 404 }),
+  });
+
+  const response = await handler(await client.command("fail"), connInfo);
+  const { type, data } = await response.json();
+  assertEquals(type, InteractionResponseType.CHANNEL_MESSAGE_WITH_SOURCE);
+  assertEquals(data.embeds.length, 1);
+});
+
+Deno.test("renders JSON without embed properties as text", async () => {
+  const { client, discord, handler } = await setup({
+    "/users": () => Response.json({ users: ["sam"] }),
+  });
+
+  const request = await client.command("users");
+  await handler(request, connInfo);
+  await until(() => discord.history(request.token).length > 0);
+  assertStringIncludes(String(lastContent(discord, request.token)), "```json");
+});
+
+Deno.test("routes button clicks to the linked route", async () => {
+  const { client, discord, handler } = await setup({
+    "/page?n=<integer>1": (request) => {
+      const page = Number(new URL(request.url).searchParams.get("n"));
+      return new Response(`Page ${page}`, {
+        headers: { Link: `</page?n=${page + 1}>; title="Next"` },
+      });
+    },
+  });
+
+  const request = await client.button("page?n=2");
+  const response = await handler(request, connInfo);
+  const { type } = await response.json();
+  assertEquals(type, InteractionResponseType.DEFERRED_UPDATE_MESSAGE);
+
+  await until(() => lastContent(discord, request.token) === "Page 2");
+  const [row] = discord.history(request.token).at(-1)?.components as {
+    components: { custom_id: string }[];
+  }[];
+  assertEquals(row.components[0].custom_id, "page?n=3");
+});
+
+Deno.test("denies users not allowed by the route's guard", async () => {
+  const { client, handler } = await setup({
+    "/ban/:user": {
+      handler: () => new Response("Banned"),
+      guard: { permissions: "4" },
+    },
+  });
+
+  const response = await handler(
+    await client.command("ban", { user: "2" }),
+    connInfo,
+  );
+  const { data } = await response.json();
+  assertEquals(data.content, "You are not allowed to use this command.");
+});
+
+Deno.test("cancels a stream from its Cancel button", async () => {
+  let reason: unknown;
+  const { client, discord, handler } = await setup({
+    "/job": {
+      handler: (request) => {
+        request.signal.addEventListener("abort", () => {
+          reason = request.signal.reason;
+        });
+        return new Response(
+          new ReadableStream({
+            async pull(controller) {
+              await new Promise((resolve) => setTimeout(resolve, 20));
+              controller.enqueue(new TextEncoder().encode("tick\n"));
+            },
+          }),
+        );
+      },
+      cancel: true,
+    },
+  });
+
+  const request = await client.command("job");
+  const { data } = await (await handler(request, connInfo)).json();
+  const [{ components: [button] }] = data.components;
+  await until(() => discord.history(request.token).length > 0);
+
+  await handler(await client.button(button.custom_id), connInfo);
+  await until(() =>
+    JSON.stringify(discord.history(request.token).at(-1)?.embeds).includes(
+      "Cancelled",
+    )
+  );
+  assertEquals(reason, "Cancelled");
+  assertEquals(discord.history(request.token).at(-1)?.components, []);
+});
+
+Deno.test("registers commands only when they changed", async () => {
+  const discord = new FakeDiscord();
+  const options = {
+    applicationId: "1",
+    authToken: "token",
+    fetch: discord.fetch,
+  };
+  const roll = (route: string) =>
+    commandsFromRoutes({ [route]: () => new Response("") });
+
+  await registerCommands(roll("/roll/:sides<integer(2..100)>"), options);
+  await registerCommands(roll("/roll/:sides<integer(2..100)>"), options);
+  await registerCommands(roll("/roll/:sides<integer>"), options);
+
+  const methods = discord.requests.map(({ method }) => method);
+  assertEquals(methods, ["GET", "PUT", "GET", "GET", "PUT"]);
+});
+
+Deno.test("uploads multipart bodies as files with the text as content", async () => {
+  const { client, discord, handler } = await setup({
+    "/report": () => {
+      const form = new FormData();
+      form.append("summary", "Weekly report");
+      form.append("csv", new File(["a,b\n1,2"], "report.csv"));
+      return new Response(form);
+    },
+  });
+
+  const request = await client.command("report");
+  await handler(request, connInfo);
+  await until(() => discord.requests.some(({ files }) => files));
+
+  const [{ body, files }] = discord.requests;
+  assertEquals(body?.content, "Weekly report");
+  assertEquals(files?.["files[0]"].name, "report.csv");
+  assertEquals(await files?.["files[0]"].text(), "a,b\n1,2");
+});
+
+Deno.test("displays a form as a modal that submits to the same route", async () => {
+  const { client, discord, handler } = await setup({
+    "/feedback": async (request) => {
+      if (request.method === "POST") {
+        const form = await request.formData();
+        return new Response(`Thanks, ${form.get("name")}!`);
+      }
+      return new Response(
+        `<form title="Feedback"><label for="name">Name</label>
+          <input id="name" name="name"></form>`,
+        { headers: { "Content-Type": "text/html" } },
+      );
+    },
+  });
+
+  const response = await handler(await client.command("feedback"), connInfo);
+  const { type, data } = await response.json();
+  assertEquals(type, InteractionResponseType.MODAL);
+  assertEquals(data.title, "Feedback");
+  assertEquals(data.custom_id, "feedback");
+
+  const request = await client.modal(data.custom_id, { name: "Sam" });
+  await handler(request, connInfo);
+  await until(() => lastContent(discord, request.token) === "Thanks, Sam!");
+});
+
+Deno.test("updates the message with server-sent events", async () => {
+  const { client, discord, handler } = await setup({
+    "/backup": () =>
+      new Response(
+        streamOf([
+          `event: embed\ndata: {"title":"Backup"}\n\n`,
+          "event: unknown\ndata: ignored\n\n",
+          "data: Running\n\n",
+          "event: followup\ndata: Done\n\n",
+        ]),
+        { headers: { "Content-Type": "text/event-stream" } },
+      ),
+  });
+
+  const request = await client.command("backup");
+  await handler(request, connInfo);
+  await until(() => discord.requests.some(({ method }) => method === "POST"));
+
+  const message = discord.history(request.token).at(-1);
+  assertEquals(message?.content, "Running");
+  assertEquals(message?.embeds, [{ title: "Backup" }]);
+  const followup = discord.requests.find(({ method }) => method === "POST");
+  assertEquals(followup?.body?.content, "Done");
+});
+
+Deno.test("runs the router's middleware before the route's", async () => {
+  const calls: string[] = [];
+  const track =
+    (name: string): Middleware => (_request, _conn, _params, next) => {
+      calls.push(name);
+      return next();
+    };
+  const { client, discord, handler } = await setup({
+    "/hello": {
+      handler: () => {
+        calls.push("handler");
+        return new Response("Hello");
+      },
+      middleware: [track("route")],
+    },
+  }, { middleware: [track("router")] });
+
+  const request = await client.command("hello");
+  await handler(request, connInfo);
+  await until(() => lastContent(discord, request.token) === "Hello");
+  assertEquals(calls, ["router", "route", "handler"]);
+});
+
+Deno.test("suggests choices from an autocomplete handler", async () => {
+  const fruits = ["apple", "banana", "blueberry"];
+  const { client, handler } = await setup({
+    "/fruit/:name": {
+      handler: () => new Response(""),
+      options: {
+        name: {
+          autocomplete: (request) => {
+            const name = new URL(request.url).searchParams.get("name") || "";
+            const matches = fruits.filter((fruit) => fruit.startsWith(name));
+            return new Response(matches.join("\n"));
+          },
+        },
+      },
+    },
+  });
+
+  const request = await client.autocomplete("fruit", { name: "b" }, "name");
+  const { type, data } = await (await handler(request, connInfo)).json();
+  assertEquals(
+    type,
+    InteractionResponseType.APPLICATION_COMMAND_AUTOCOMPLETE_RESULT,
+  );
+  assertEquals(
+    data.choices.map(({ value }: { value: string }) => value),
+    ["banana", "blueberry"],
+  );
+});
+
+Deno.test("posts the target of a context menu command", async () => {
+  const { client, discord, handler } = await setup({
+    "/lookup/:user": {
+      context: "user",
+      name: "Lookup user",
+      handler: async (request, _connInfo, { user }) => {
+        const { username } = await request.json();
+        return new Response(`${username} has ID ${user}`);
+      },
+    },
+  });
+
+  const request = await client.context("user", "Lookup user", {
+    id: "42",
+    username: "sam",
+  });
+  await handler(request, connInfo);
+  await until(() => lastContent(discord, request.token) === "sam has ID 42");
+});
+
+Deno.test("responds privately to ephemeral routes", async () => {
+  const { client, handler } = await setup({
+    "/token": { handler: () => new Response("secret"), ephemeral: true },
+    "/quota": () =>
+      new Response("3 GB", { headers: { "Cache-Control": "private" } }),
+  });
+
+  for (const name of ["token", "quota"]) {
+    const response = await handler(await client.command(name), connInfo);
+    const { data } = await response.json();
+    assertEquals(data.flags, 64);
+  }
+});
+
+Deno.test("only allows HTTP requests with the bearer token", async () => {
+  const { handler } = await setup({
+    "/hello": (request) =>
+      new Response(request.headers.get("Authorization") || "Hello"),
+  }, { http: { bearer: "secret" } });
+
+  const denied = await handler(new Request("http://bot/hello"), connInfo);
+  assertEquals(denied.status, 401);
+  await denied.body?.cancel();
+
+  const wrong = await handler(
+    new Request("http://bot/hello", {
+      headers: { Authorization: "Bearer other" },
+    }),
+    connInfo,
+  );
+  assertEquals(wrong.status, 401);
+  await wrong.body?.cancel();
+
+  // The token is not passed on to the handler.
+  const allowed = await handler(
+    new Request("http://bot/hello", {
+      headers: { Authorization: "Bearer secret" },
+    }),
+    connInfo,
+  );
+  assertEquals(await allowed.text(), "Hello");
+});
+
+Deno.test("only allows HTTP requests signed with the HMAC secret", async () => {
+  const { handler } = await setup({
+    "/hello": () => new Response("Hello"),
+  }, { http: { hmac: "secret" } });
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode("secret"),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const sign = async (value: string) =>
+    [
+      ...new Uint8Array(
+        await crypto.subtle.sign("HMAC", key, encoder.encode(value)),
+      ),
+    ]
+      .map((byte) => byte.toString(16).padStart(2, "0")).join("");
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const signed = await handler(
+    new Request("http://bot/hello?x=1", {
+      headers: {
+        "X-Signature-Timestamp": timestamp,
+        "X-Signature-HMAC-SHA256": await sign(`${timestamp}GET/hello?x=1`),
+      },
+    }),
+    connInfo,
+  );
+  assertEquals(await signed.text(), "Hello");
+
+  // The signature covers the path, so it can't be reused for another one.
+  const tampered = await handler(
+    new Request("http://bot/hello?x=2", {
+      headers: {
+        "X-Signature-Timestamp": timestamp,
+        "X-Signature-HMAC-SHA256": await sign(`${timestamp}GET/hello?x=1`),
+      },
+    }),
+    connInfo,
+  );
+  assertEquals(tampered.status, 401);
+  await tampered.body?.cancel();
+});
+
+Deno.test("only allows HTTP requests from localhost", async () => {
+  const { handler } = await setup({
+    "/hello": () => new Response("Hello"),
+  }, { http: "localhost" });
+
+  const local = await handler(new Request("http://bot/hello"), connInfo);
+  assertEquals(await local.text(), "Hello");
+
+  const remote = await handler(new Request("http://bot/hello"), {
+    ...connInfo,
+    remoteAddr: { transport: "tcp", hostname: "10.0.0.1", port: 50000 },
+  });
+  assertEquals(remote.status, 403);
+  await remote.body?.cancel();
+});
+
+Deno.test("retries rate limited requests after Retry-After", async () => {
+  const times: number[] = [];
+  const rest = new RestClient({
+    fetch: () => {
+      times.push(Date.now());
+      return Promise.resolve(
+        times.length === 1
+          ? new Response("", { status: 429, headers: { "Retry-After": "0.1" } })
+          : new Response("ok"),
+      );
+    },
+  });
+
+  const response = await rest.request("/channels/1/messages");
+  assertEquals(await response.text(), "ok");
+  assertEquals(times.length, 2);
+  assert(times[1] - times[0] >= 100);
+});
+
+Deno.test("retries server errors with backoff", async () => {
+  let count = 0;
+  const rest = new RestClient({
+    retries: 1,
+    fetch: () => {
+      count++;
+      return Promise.resolve(new Response("", { status: 502 }));
+    },
+  });
+
+  const response = await rest.request("/channels/1/messages");
+  assertEquals(response.status, 502);
+  assertEquals(count, 2);
+});
+
+Deno.test("waits for the rate limit bucket to reset", async () => {
+  const times: number[] = [];
+  const rest = new RestClient({
+    fetch: () => {
+      times.push(Date.now());
+      return Promise.resolve(
+        new Response("", {
+          headers: {
+            "X-RateLimit-Bucket": "abc",
+            "X-RateLimit-Remaining": "0",
+            "X-RateLimit-Reset-After": "0.1",
+          },
+        }),
+      );
+    },
+  });
+
+  await Promise.all([
+    rest.request("/channels/1/messages"),
+    rest.request("/channels/1/messages"),
+  ]);
+  assert(times[1] - times[0] >= 100);
+});
+
+Deno.test("sends only the latest of queued edits to a message", async () => {
+  const bodies: unknown[] = [];
+  const rest = new RestClient({
+    fetch: async (_input, init) => {
+      bodies.push(init?.body);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return new Response(String(init?.body));
+    },
+  });
+  const edit = (content: string) =>
+    rest.request("/webhooks/1/abc/messages/@original", {
+      method: "PATCH",
+      body: content,
+    });
+
+  // The first edit is being sent, so the next ones wait for it.
+  const first = edit("1");
+  await new Promise((resolve) => setTimeout(resolve, 5));
+  const responses = await Promise.all([first, edit("2"), edit("3")]);
+  assertEquals(bodies, ["1", "3"]);
+  // Callers of replaced edits get the response of the latest one.
+  assertEquals(responses[1], responses[2]);
+});
@@ -0,0 +1,450 @@
+/**
+ * Utilities to test routes through Discord interactions, offline.
+ *
+ * `InteractionClient` signs interactions with its own key pair, so the router
+ * accepts them with the client's `publicKey`. `FakeDiscord` stands in for
+ * Discord's API, and records the messages the router sends.
+ *
+ * ```ts
+ * import { router } from "https://raw.githubusercontent.com/sntran/web2bot/main/mod.ts";
+ * import {
+ *   FakeDiscord,
+ *   InteractionClient,
+ * } from "https://raw.githubusercontent.com/sntran/web2bot/main/testing.ts";
+ *
+ * const client = await InteractionClient.create();
+ * const discord = new FakeDiscord();
+ *
+ * const handler = router(routes, {
+ *   publicKey: client.publicKey,
+ *   apiBaseUrl: discord.baseUrl,
+ *   fetch: discord.fetch,
+ *   serveOnly: true,
+ * });
+ * const request = await client.command("hello", { name: "Sam" });
+ * await handler(request, connInfo);
+ * // ...waits for the stream to finish.
+ * console.log(discord.history(request.token));
+ * ```
+ */
+import { CommandType, InteractionType, OptionType } from "./router.ts";
+import type {
+  GuildMember,
+  Interaction,
+  InteractionDataOption,
+} from "./router.ts";
+
+/** A signed interaction request, with the interaction's token. */
+export interface InteractionRequest extends Request {
+  token: string;
+}
+
+/** A request received by `FakeDiscord`. */
+export interface RecordedRequest {
+  method: string;
+  /** Path after the API's base URL, i.e. `/webhooks/1/token/messages/@original`. */
+  path: string;
+  /** JSON body, or `payload_json` of a form with files. */
+  body?: Record<string, unknown>;
+  /** Files of a form, by their field name. */
+  files?: Record<string, File>;
+}
+
+/**
+ * Creates interaction requests signed by its own key pair.
+ */
+export class InteractionClient {
+  /** Hex-encoded public key, for the router's `publicKey` option. */
+  readonly publicKey: string;
+  #privateKey: CryptoKey;
+  #url: string;
+  #defaults: Partial<Interaction>;
+  #count = 0;
+
+  private constructor(
+    publicKey: string,
+    privateKey: CryptoKey,
+    url: string,
+    defaults: Partial<Interaction>,
+  ) {
+    this.publicKey = publicKey;
+    this.#privateKey = privateKey;
+    this.#url = url;
+    this.#defaults = defaults;
+  }
+
+  /**
+   * Generates a new key pair for a client.
+   * @param url URL of the router's endpoint for interactions.
+   * @param defaults Fields of every interaction, such as `guild_id`.
+   */
+  static async create(
+    url = "http://localhost/",
+    defaults: Partial<Interaction> = {},
+  ): Promise<InteractionClient> {
+    const { publicKey, privateKey } = await crypto.subtle.generateKey(
+      { name: "Ed25519" },
+      true,
+      ["sign", "verify"],
+    ) as CryptoKeyPair;
+    const raw = await crypto.subtle.exportKey("raw", publicKey);
+    const member: GuildMember = {
+      user: { id: "1", username: "tester", discriminator: "0", avatar: "" },
+      roles: [],
+      permissions: "0",
+      joined_at: new Date(0),
+      deaf: false,
+      mute: false,
+      flags: 0,
+    };
+
+    return new InteractionClient(hex(raw), privateKey, url, {
+      application_id: "1",
+      guild_id: "1",
+      channel_id: "1",
+      member,
+      version: 1,
+      locale: "en-US",
+      guild_locale: "en-US",
+      ...defaults,
+    });
+  }
+
+  /**
+   * Signs an interaction, filling in the client's defaults, a new ID and a
+   * new token.
+   */
+  async sign(interaction: Partial<Interaction>): Promise<InteractionRequest> {
+    const id = String(++this.#count);
+    const body = JSON.stringify({
+      id,
+      token: `token-${id}`,
+      ...this.#defaults,
+      ...interaction,
+    });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const signature = await crypto.subtle.sign(
+      "Ed25519",
+      this.#privateKey,
+      new TextEncoder().encode(timestamp + body),
+    );
+
+    const request = new Request(this.#url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Signature-Ed25519": hex(signature),
+        "X-Signature-Timestamp": timestamp,
+      },
+      body,
+    });
+
+    return Object.assign(request, { token: JSON.parse(body).token });
+  }
+
+  /** Discord pings to check the endpoint. */
+  ping(): Promise<InteractionRequest> {
+    return this.sign({ type: InteractionType.PING });
+  }
+
+  /**
+   * Invokes a command.
+   * @param name Full command name, i.e. `admin roles add`.
+   * @param options Option values by name.
+   */
+  command(
+    name: string,
+    options: Record<string, string | number | boolean> = {},
+    interaction: Partial<Interaction> = {},
+  ): Promise<InteractionRequest> {
+    return this.sign({
+      type: InteractionType.APPLICATION_COMMAND,
+      data: dataFromCommand(name, options),
+      ...interaction,
+    });
+  }
+
+  /**
+   * Invokes a context menu command on a user or a message.
+   * @param name Name of the command, i.e. `Translate`.
+   * @param target The user or message, with its ID.
+   */
+  context(
+    type: "user" | "message",
+    name: string,
+    target: { id: string } & Record<string, unknown>,
+    interaction: Partial<Interaction> = {},
+  ): Promise<InteractionRequest> {
+    const resolved = type === "user"
+      ? { users: { [target.id]: target } }
+      : { messages: { [target.id]: target } };
+
+    return this.sign({
+      type: InteractionType.APPLICATION_COMMAND,
+      data: {
+        id: "1",
+        name,
+        type: type === "user" ? CommandType.USER : CommandType.MESSAGE,
+        target_id: target.id,
+        resolved,
+      } as Interaction["data"],
+      ...interaction,
+    });
+  }
+
+  /**
+   * Types into an option with autocomplete.
+   * @param name Full command name, i.e. `search`.
+   * @param options Option values by name, including the partial value.
+   * @param focused Name of the option being typed.
+   */
+  autocomplete(
+    name: string,
+    options: Record<string, string | number | boolean>,
+    focused: string,
+    interaction: Partial<Interaction> = {},
+  ): Promise<InteractionRequest> {
+    const data = dataFromCommand(name, options);
+    let values = data.options || [];
+    while (values.length === 1 && values[0].options) {
+      values = values[0].options;
+    }
+    values.forEach((option) => {
+      if (option.name === focused) option.focused = true;
+    });
+
+    return this.sign({
+      type: InteractionType.APPLICATION_COMMAND_AUTOCOMPLETE,
+      data,
+      ...interaction,
+    });
+  }
+
+  /**
+   * Clicks a button.
+   * @param customId Custom ID of the button, i.e. `page?n=2`.
+   */
+  button(
+    customId: string,
+    interaction: Partial<Interaction> = {},
+  ): Promise<InteractionRequest> {
+    return this.sign({
+      type: InteractionType.MESSAGE_COMPONENT,
+      data: {
+        id: "1",
+        name: "",
+        custom_id: customId,
+        component_type: 2, // Button
+      },
+      ...interaction,
+    });
+  }
+
+  /**
+   * Submits a modal.
+   * @param customId Custom ID of the modal, i.e. its form's action.
+   * @param fields Text input values by their custom ID.
+   */
+  modal(
+    customId: string,
+    fields: Record<string, string>,
+    interaction: Partial<Interaction> = {},
+  ): Promise<InteractionRequest> {
+    return this.sign({
+      type: InteractionType.MODAL_SUBMIT,
+      data: {
+        id: "1",
+        name: "",
+        custom_id: customId,
+        components: Object.entries(fields).map(([custom_id, value]) => ({
+          type: 1, // Action Row
+          components: [{ type: 4, custom_id, value }], // Text Input
+        })),
+      },
+      ...interaction,
+    });
+  }
+}
+
+/**
+ * Stands in for Discord's API, and records the requests to it.
+ *
+ * Interaction responses and follow-up messages are handled by their webhook,
+ * and messages in channels by their ID. Commands are kept per application and
+ * guild, so they can be listed after registering.
+ */
+export class FakeDiscord {
+  readonly baseUrl: string;
+  /** Requests received, in order. */
+  readonly requests: RecordedRequest[] = [];
+  /** Current state of each message, by ID or interaction token. */
+  readonly messages = new Map<string, Record<string, unknown>>();
+  #deleted = new Set<string>();
+  #commands = new Map<string, unknown[]>();
+  #count = 0;
+
+  constructor(baseUrl = "https://discord.com/api") {
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * States of a message, in the order they were sent.
+   * @param id ID of the message, or the token of the interaction it responds to.
+   */
+  history(id: string): Record<string, unknown>[] {
+    return this.requests
+      .filter(({ path }) => messageIdFromPath(path) === id)
+      .map(({ body = {} }) => body);
+  }
+
+  /** Deletes a message, so further edits get a 404 response. */
+  delete(id: string) {
+    this.messages.delete(id);
+    this.#deleted.add(id);
+  }
+
+  /**
+   * Replaces the global `fetch` for requests to the API, for code that does
+   * not take the `fetch` option.
+   */
+  install(): () => void {
+    const { fetch } = globalThis;
+    globalThis.fetch = (input, init) => {
+      const url = input instanceof Request ? input.url : String(input);
+      if (url.startsWith(this.baseUrl)) {
+        return this.fetch(input, init);
+      }
+      return fetch(input, init);
+    };
+
+    return () => {
+      globalThis.fetch = fetch;
+    };
+  }
+
+  /** Handles a request to the API, like `fetch`. */
+  fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    const { pathname, search } = new URL(request.url);
+    const path = pathname.substring(new URL(this.baseUrl).pathname.length) +
+      search;
+    const { method } = request;
+
+    const recorded: RecordedRequest = { method, path };
+    const contentType = request.headers.get("Content-Type") || "";
+    if (contentType.startsWith("multipart/form-data")) {
+      const form = await request.formData();
+      recorded.files = {};
+      for (const [name, value] of form) {
+        if (name === "payload_json") {
+          recorded.body = JSON.parse(value as string);
+        } else {
+          recorded.files[name] = value as File;
+        }
+      }
+    } else if (contentType.startsWith("application/json")) {
+      const text = await request.text();
+      recorded.body = text ? JSON.parse(text) : undefined;
+    }
+    this.requests.push(recorded);
+
+    const id = messageIdFromPath(path);
+    if (method === "PATCH" && id) {
+      if (this.#deleted.has(id)) {
+        return Response.json(
+          { message: "Unknown Message", code: 10008 },
+          { status: 404, statusText: "Not Found" },
+        );
+      }
+      // Original responses are created when the router responds.
+      const message = { ...this.messages.get(id), ...recorded.body };
+      this.messages.set(id, message);
+      return Response.json({ id, ...message });
+    }
+
+    // Follow-up and channel messages.
+    if (
+      method === "POST" &&
+      /^\/(?:webhooks\/[^/]*\/[^/?]+|channels\/[^/]+\/messages)(?:\?|$)/
+        .test(path)
+    ) {
+      const id = String(++this.#count);
+      const message = { ...recorded.body, id };
+      this.messages.set(id, message);
+      return Response.json(message);
+    }
+
+    const [, scope] = path.match(/^\/applications\/(.+)\/commands(?:\?|$)/) ||
+      [];
+    if (scope && method === "GET") {
+      return Response.json(this.#commands.get(scope) || []);
+    }
+    if (scope && method === "PUT") {
+      const commands = (recorded.body as unknown as Record<string, unknown>[])
+        .map((command) => ({ id: String(++this.#count), ...command }));
+      this.#commands.set(scope, commands);
+      return Response.json(commands);
+    }
+
+    return Response.json(
+      { message: "404: Not Found", code: 0 },
+      { status: 404, statusText: "Not Found" },
+    );
+  };
+}
+
+/**
+ * The ID of the message a request is for, with the interaction token for
+ * original responses.
+ */
+function messageIdFromPath(path: string): string | undefined {
+  const [, token, id] = path.match(
+    /^\/webhooks\/[^/]*\/([^/?]+)\/messages\/([^/?]+)/,
+  ) || [];
+  if (token) {
+    return id === "@original" ? token : id;
+  }
+
+  const [, channelMessageId] =
+    path.match(/^\/channels\/[^/]+\/messages\/(\d+)/) ||
+    [];
+  return channelMessageId;
+}
+
+/** Creates the data of a command interaction, with nested subcommands. */
+function dataFromCommand(
+  name: string,
+  values: Record<string, string | number | boolean>,
+) {
+  const [command, ...subcommands] = name.split(" ");
+  let options: InteractionDataOption[] = Object.entries(values).map((
+    [name, value],
+  ) => ({
+    name,
+    value,
+    type: typeof value === "boolean"
+      ? OptionType.BOOLEAN
+      : typeof value === "number"
+      ? Number.isInteger(value) ? OptionType.INTEGER : OptionType.NUMBER
+      : OptionType.STRING,
+  }));
+
+  subcommands.reverse().forEach((name, index) => {
+    options = [{
+      name,
+      type: index ? OptionType.SUB_COMMAND_GROUP : OptionType.SUB_COMMAND,
+      options,
+    }];
+  });
+
+  return { id: "1", name: command, options };
+}
+
+function hex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}